@@ -0,0 +1,122 @@
+import * as d3 from "d3";
+import { Bounds } from 'spatial-index';
+
+export type CameraEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+const EASINGS: Record<CameraEasing, (t: number) => number> = {
+	'linear': d3.easeLinear,
+	'ease-in': d3.easeCubicIn,
+	'ease-out': d3.easeCubicOut,
+	'ease-in-out': d3.easeCubicInOut,
+};
+
+// 两个视口中心的距离超过视口尺寸的这个倍数时视为长距离跳转
+const LONG_JUMP_DISTANCE = 1.5;
+
+export interface CameraAnimationOptions {
+	duration: number;
+	easing: CameraEasing;
+}
+
+/**
+ * 从 from 到 to 的视口插值路径，t 取 0~1。
+ * 中心线性插值，尺寸按比例（对数）插值；长距离跳转时途中放大到同时包含两端的视口，
+ * 即先缩小再放大，保留空间上的参照。
+ */
+export function cameraPath(from: Bounds, to: Bounds): (t: number) => Bounds {
+	const w0 = from.maxX - from.minX;
+	const h0 = from.maxY - from.minY;
+	const w1 = to.maxX - to.minX;
+	const h1 = to.maxY - to.minY;
+	const x0 = (from.minX + from.maxX) / 2;
+	const y0 = (from.minY + from.maxY) / 2;
+	const x1 = (to.minX + to.maxX) / 2;
+	const y1 = (to.minY + to.maxY) / 2;
+
+	let zoomOut = 1;
+	if (Math.hypot(x1 - x0, y1 - y0) > LONG_JUMP_DISTANCE * Math.max(w0, h0, w1, h1)) {
+		// 路径中点（t = 0.5）的视口正好包含两端
+		const unionWidth = Math.max(from.maxX, to.maxX) - Math.min(from.minX, to.minX);
+		const unionHeight = Math.max(from.maxY, to.maxY) - Math.min(from.minY, to.minY);
+		zoomOut = Math.max(1, unionWidth / Math.sqrt(w0 * w1), unionHeight / Math.sqrt(h0 * h1));
+	}
+
+	return (t: number) => {
+		const k = Math.pow(zoomOut, Math.sin(Math.PI * t));
+		const width = w0 * Math.pow(w1 / w0, t) * k;
+		const height = h0 * Math.pow(h1 / h0, t) * k;
+		const x = x0 + (x1 - x0) * t;
+		const y = y0 + (y1 - y0) * t;
+		return { minX: x - width / 2, minY: y - height / 2, maxX: x + width / 2, maxY: y + height / 2 };
+	};
+}
+
+/**
+ * 白板视口的过渡动画：逐帧以插值得到的视口调用 zoomToBbox，结束时执行真正的跳转。
+ * 动画期间在白板上滚动、按下鼠标或按键都会立即停止动画，视口停在当前位置。
+ */
+export class CameraAnimation {
+	private canvas: any;
+	private frame = 0;
+	private win: Window | null = null;
+	private stopListening: (() => void) | null = null;
+
+	constructor(canvas: any) {
+		this.canvas = canvas;
+	}
+
+	get isRunning() {
+		return this.frame !== 0;
+	}
+
+	// 动画移动到 target（画布坐标），结束后调用 finish 精确落到目标
+	start(target: Bounds, options: CameraAnimationOptions, finish: () => void) {
+		this.cancel();
+		const { minX, minY, maxX, maxY } = this.canvas.getViewportBBox();
+		const from = { minX, minY, maxX, maxY };
+		if (options.duration <= 0 || !(maxX > minX && maxY > minY) || !(target.maxX > target.minX && target.maxY > target.minY)) {
+			finish();
+			return;
+		}
+
+		const path = cameraPath(from, target);
+		const ease = EASINGS[options.easing] ?? EASINGS['ease-in-out'];
+		const el: HTMLElement = this.canvas.wrapperEl;
+		const win = el.win;
+		const startTime = win.performance.now();
+		const step = (now: number) => {
+			const t = Math.min(1, (now - startTime) / options.duration);
+			if (t >= 1) {
+				this.cancel();
+				finish();
+				return;
+			}
+			this.canvas.zoomToBbox(path(ease(t)));
+			this.frame = win.requestAnimationFrame(step);
+		};
+		this.win = win;
+		this.frame = win.requestAnimationFrame(step);
+
+		// 用户输入时停止动画，捕获阶段注册，先于白板自己的处理
+		const cancel = () => this.cancel();
+		const doc = el.doc;
+		el.addEventListener('wheel', cancel, true);
+		el.addEventListener('pointerdown', cancel, true);
+		doc.addEventListener('keydown', cancel, true);
+		this.stopListening = () => {
+			el.removeEventListener('wheel', cancel, true);
+			el.removeEventListener('pointerdown', cancel, true);
+			doc.removeEventListener('keydown', cancel, true);
+		};
+	}
+
+	// 停止动画，视口保持在当前帧的位置
+	cancel() {
+		if (this.frame)
+			this.win?.cancelAnimationFrame(this.frame);
+		this.frame = 0;
+		this.win = null;
+		this.stopListening?.();
+		this.stopListening = null;
+	}
+}
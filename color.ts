@@ -0,0 +1,150 @@
+import * as d3 from "d3";
+
+// 白板的预设颜色，节点的 color 为 '1'~'6' 时使用；主题定义了 --canvas-color-N 时以主题为准
+export const CANVAS_PRESET_COLORS: Record<string, string> = {
+	'1': '#e93147',
+	'2': '#ec7500',
+	'3': '#e0ac00',
+	'4': '#08b94e',
+	'5': '#00bfbc',
+	'6': '#7852ee',
+};
+
+// 节点或连线没有设置颜色、或颜色无法解析时使用的颜色
+export const DEFAULT_NODE_COLOR = '#c0c0c0';
+const DEFAULT_NODE_RGBA: RGBAColor = { r: 0xc0, g: 0xc0, b: 0xc0, a: 1 };
+
+export interface RGBAColor {
+	r: number;
+	g: number;
+	b: number;
+	// 0~1
+	a: number;
+}
+
+// 色相的单位换算为角度
+const HUE_UNITS: Record<string, number> = { '': 1, 'deg': 1, 'grad': 0.9, 'rad': 180 / Math.PI, 'turn': 360 };
+
+// 解析 rgb()/hsl() 的参数，逗号与空格（含 / 分隔透明度）两种写法都支持；hue 为 true 时第一个参数是色相
+function parseChannels(args: string, hue: boolean): number[] | null {
+	const parts = args.split(/\s*[\s,/]\s*/).filter(part => part);
+	if (parts.length !== 3 && parts.length !== 4)
+		return null;
+	const channels: number[] = [];
+	for (const [i, part] of parts.entries()) {
+		const match = part.match(/^([+-]?(?:\d*\.)?\d+(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/);
+		if (!match)
+			return null;
+		const number = parseFloat(match[1]);
+		const unit = match[2] ?? '';
+		if (i === 3)
+			channels.push(unit === '%' ? number / 100 : unit ? NaN : number);
+		else if (hue && i === 0)
+			channels.push(unit === '%' ? NaN : number * HUE_UNITS[unit]);
+		else if (hue)
+			// 饱和度和亮度可以省略百分号
+			channels.push(unit && unit !== '%' ? NaN : number / 100);
+		else
+			channels.push(unit === '%' ? number * 255 / 100 : unit ? NaN : number);
+	}
+	return channels.some(channel => isNaN(channel)) ? null : channels;
+}
+
+function clampColor({ r, g, b, a }: RGBAColor): RGBAColor {
+	const channel = (n: number) => isNaN(n) ? 0 : Math.round(Math.max(0, Math.min(255, n)));
+	return { r: channel(r), g: channel(g), b: channel(b), a: isNaN(a) ? 1 : Math.max(0, Math.min(1, a)) };
+}
+
+/**
+ * 解析任意 CSS 颜色：十六进制（3/4/6/8 位）、rgb()/rgba()、hsl()/hsla()、颜色名称、transparent，
+ * 以及 Obsidian 变量中常见的 "r, g, b" 三元组；传入 el 时还可以解析 var(--name, fallback)。
+ * 无法解析时返回 null。
+ */
+export function parseColor(color: string, el?: Element): RGBAColor | null {
+	// 自定义属性名区分大小写，其余写法不区分
+	const value = color.trim();
+	if (value.startsWith('var(')) {
+		const match = value.match(/^var\(\s*(--[\w-]+)\s*(?:,\s*(.*))?\)$/);
+		if (!match || !el)
+			return null;
+		// 变量的值可能又是 var() 或 "r, g, b"
+		const resolved = el.win.getComputedStyle(el).getPropertyValue(match[1]).trim();
+		return parseColor(resolved || match[2] || '', el);
+	}
+	const lower = value.toLowerCase();
+	const fn = lower.match(/^(rgba?|hsla?)\((.*)\)$/);
+	if (fn || /^[\d.]/.test(lower)) {
+		const hue = fn?.[1].startsWith('hsl') ?? false;
+		const channels = parseChannels(fn ? fn[2] : lower, hue);
+		if (!channels)
+			return null;
+		const [x, y, z, a = 1] = channels;
+		const rgb = hue ? d3.hsl(x, y, z, a).rgb() : d3.rgb(x, y, z, a);
+		return clampColor({ r: rgb.r, g: rgb.g, b: rgb.b, a });
+	}
+	// 十六进制、颜色名称与 transparent
+	const parsed = d3.color(lower)?.rgb();
+	return parsed ? clampColor({ r: parsed.r, g: parsed.g, b: parsed.b, a: parsed.opacity }) : null;
+}
+
+// 格式化为 #rrggbb，带透明度时为 #rrggbbaa
+export function formatHexColor(color: RGBAColor): string {
+	const hex = (n: number) => Math.round(Math.max(0, Math.min(255, n))).toString(16).padStart(2, '0');
+	const alpha = color.a < 1 ? hex(color.a * 255) : '';
+	return `#${hex(color.r)}${hex(color.g)}${hex(color.b)}${alpha}`;
+}
+
+// 将颜色（包括 var()）规范化为十六进制，无法解析时原样返回
+export function resolveCssColor(color: string, el: Element): string {
+	const rgba = parseColor(color, el);
+	return rgba ? formatHexColor(rgba) : color;
+}
+
+// 当前主题下的预设颜色
+export function themePresetColors(el: Element): Record<string, string> {
+	const colors: Record<string, string> = {};
+	for (const [color, fallback] of Object.entries(CANVAS_PRESET_COLORS)) {
+		const resolved = parseColor(`var(--canvas-color-${color})`, el);
+		colors[color] = resolved ? formatHexColor({ ...resolved, a: 1 }) : fallback;
+	}
+	return colors;
+}
+
+// 节点或连线的 color 属性（预设编号或任意 CSS 颜色）转换为十六进制颜色
+export function convertNodeColor(color: string, presets: Record<string, string> = CANVAS_PRESET_COLORS): string {
+	if (presets[color])
+		return presets[color];
+	const rgba = color ? parseColor(color) : null;
+	return rgba ? formatHexColor(rgba) : DEFAULT_NODE_COLOR;
+}
+
+// 以 opacity 替换颜色本身的透明度
+export function addOpacityToHexColor(color: string, opacity: number): string {
+	const rgba = parseColor(color);
+	if (!rgba)
+		return color;
+	return formatHexColor({ ...rgba, a: Math.max(0, Math.min(1, opacity)) });
+}
+
+// 按 source-over 将 foreground 叠加在 background 上
+export function compositeColor(foreground: RGBAColor, background: RGBAColor): RGBAColor {
+	const a = foreground.a + background.a * (1 - foreground.a);
+	if (a === 0)
+		return { r: 0, g: 0, b: 0, a: 0 };
+	const channel = (f: number, b: number) => (f * foreground.a + b * background.a * (1 - foreground.a)) / a;
+	return clampColor({
+		r: channel(foreground.r, background.r),
+		g: channel(foreground.g, background.g),
+		b: channel(foreground.b, background.b),
+		a,
+	});
+}
+
+// 将 color 以 opacity（而不是颜色本身的透明度）叠加在 backgroundColor 上；背景不透明时结果也不透明。
+// 颜色无法解析时使用默认节点颜色，背景无法解析时不混色，直接返回带透明度的颜色
+export function blendColorWithOpacity(color: string, opacity: number, backgroundColor: string): string {
+	const { r, g, b } = parseColor(color) ?? DEFAULT_NODE_RGBA;
+	const foreground = { r, g, b, a: Math.max(0, Math.min(1, opacity)) };
+	const background = parseColor(backgroundColor);
+	return formatHexColor(background ? compositeColor(foreground, background) : foreground);
+}
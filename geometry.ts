@@ -0,0 +1,67 @@
+export class Vector2 {
+	x: number
+	y: number
+	constructor(x: number, y: number) {
+		this.x = x
+		this.y = y
+	}
+	static add(a: Vector2, b: Vector2) {
+		return new Vector2(a.x + b.x, a.y + b.y)
+
+	}
+	static sub(a: Vector2, b: Vector2) {
+		return new Vector2(a.x - b.x, a.y - b.y)
+	}
+
+	static scale(a: Vector2, k: number) {
+		return new Vector2(a.x * k, a.y * k)
+	}
+
+	static len(a: Vector2) {
+		return Math.sqrt(Vector2.lenSq(a))
+	}
+
+	static lenSq(a: Vector2) {
+		return a.x * a.x + a.y * a.y
+	}
+}
+
+export class BoundingBox {
+	minX: number
+	minY: number
+	maxX: number
+	maxY: number
+	constructor(min_x = 0, min_y = 0, max_x = 0, max_y = 0) {
+		this.minX = min_x
+		this.minY = min_y
+		this.maxX = max_x
+		this.maxY = max_y
+	}
+	static fromRect(bbox: SVGRect | undefined) {
+		if (!bbox)
+			return new BoundingBox()
+		return new BoundingBox(bbox.x, bbox.y, bbox.x + bbox.width, bbox.y + bbox.height)
+	}
+	width() {
+		return this.maxX - this.minX
+	}
+	height() {
+		return this.maxY - this.minY
+	}
+	contains(p: Vector2) {
+		return p.x >= this.minX && p.x <= this.maxX && p.y >= this.minY && p.y <= this.maxY
+	}
+	containsBox(other: BoundingBox) {
+		return other.minX >= this.minX && other.maxX <= this.maxX && other.minY >= this.minY && other.maxY <= this.maxY
+	}
+	intersects(other: BoundingBox) {
+		return this.minX <= other.maxX && this.maxX >= other.minX && this.minY <= other.maxY && this.maxY >= other.minY
+	}
+	isValid(){
+		return this.minX < this.maxX && this.minY < this.maxY	
+	}
+}
+
+export function clamp(x: number, min: number, max: number) {
+	return Math.min(Math.max(x, min), max)
+}
@@ -0,0 +1,50 @@
+import { Bounds } from 'spatial-index';
+
+// 每个白板最多保留的历史记录数
+const HISTORY_LIMIT = 50;
+
+/**
+ * 白板视口的前进/后退历史，记录跳转之前的视口范围（画布坐标）。
+ * 与浏览器一样，产生新的跳转时清空前进记录。
+ */
+export class NavigationHistory {
+	private backStack: Bounds[] = [];
+	private forwardStack: Bounds[] = [];
+
+	get canGoBack() {
+		return this.backStack.length > 0;
+	}
+
+	get canGoForward() {
+		return this.forwardStack.length > 0;
+	}
+
+	push(viewport: Bounds) {
+		this.backStack.push(viewport);
+		if (this.backStack.length > HISTORY_LIMIT)
+			this.backStack.shift();
+		this.forwardStack = [];
+	}
+
+	// 返回要回到的视口，current 进入前进记录
+	back(current: Bounds): Bounds | null {
+		const viewport = this.backStack.pop();
+		if (!viewport)
+			return null;
+		this.forwardStack.push(current);
+		return viewport;
+	}
+
+	forward(current: Bounds): Bounds | null {
+		const viewport = this.forwardStack.pop();
+		if (!viewport)
+			return null;
+		this.backStack.push(current);
+		return viewport;
+	}
+
+	clear() {
+		this.backStack = [];
+		this.forwardStack = [];
+	}
+}
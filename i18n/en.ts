@@ -28,10 +28,12 @@ const translations = {
 	'hijackToolbarDesc': 'Move the toolbar on top of the minimap',
 	'drawActiveViewport': 'Draw active viewport',
 	'drawActiveViewportDesc': 'Draw the active viewport on the minimap',
+	'panOnEmptyClick': 'Pan on empty click',
+	'panOnEmptyClickDesc': 'Center the canvas on the clicked point when clicking empty space in the minimap',
 	'primaryNavigationStrategy': 'Primary navigation strategy',
 	'primaryNavigationStrategyDesc': 'Primary navigation strategy (Directly click on minimap)',
 	'secondaryNavigationStrategy': 'Secondary navigation strategy',
-	'secondaryNavigationStrategyDesc': 'Secondary navigation strategy (Ctrl + click on minimap)',
+	'secondaryNavigationStrategyDesc': 'Secondary navigation strategy (Ctrl + click on minimap, Cmd + click on macOS)',
 	'pan': 'Pan',
 	'zoom': 'Zoom',
 	'none': 'None',
@@ -55,7 +57,99 @@ const translations = {
 	'nodeOpacityDesc': 'Customize the opacity of nodes in the minimap',
 	'linkColor': 'Link Color',
 	'linkColorDesc': 'Set the color of the connecting lines in the minimap',
-	
+	'rendererBackend': 'Renderer',
+	'rendererBackendDesc': 'How the minimap is drawn. Automatic uses SVG for small canvases and Canvas for large ones',
+	'rendererAuto': 'Automatic',
+	'canvasRendererThreshold': 'Canvas renderer threshold',
+	'canvasRendererThresholdDesc': 'Switch to the Canvas renderer when the canvas has more nodes than this (automatic mode only)',
+	'renderInWorker': 'Render in background worker',
+	'renderInWorkerDesc': 'Let the Canvas renderer draw in an OffscreenCanvas worker when available',
+	'collapse': 'Collapse the minimap',
+	'expand': 'Expand the minimap',
+	'tooltipGroup': 'Group',
+	'tooltipText': 'Text',
+	'tooltipFile': 'File',
+	'tooltipLink': 'Link',
+	'tooltipImage': 'Image',
+	'tooltipEdge': 'Edge',
+	'tooltipMissingFile': 'File not found',
+	'showTooltips': 'Show tooltips',
+	'showTooltipsDesc': 'Show node and edge details when hovering over the minimap',
+	'searchPlaceholder': 'Search nodes…',
+	'jumpToNode': 'Jump to canvas node',
+	'jumpToNodeDesc': 'Jump to canvas node',
+	'jumpToNodePlaceholder': 'Type to search canvas nodes…',
+	'saveViewpoint': 'Save current view as viewpoint',
+	'saveViewpointDesc': 'Save current view as viewpoint',
+	'goToViewpoint': 'Go to viewpoint',
+	'goToViewpointDesc': 'Go to viewpoint',
+	'viewpoints': 'Viewpoints',
+	'viewpoint': 'Viewpoint',
+	'viewpointName': 'Viewpoint name',
+	'removeViewpoint': 'Remove viewpoint',
+	'noViewpoints': 'No saved viewpoints',
+	'save': 'Save',
+	'navigateBack': 'Navigate back',
+	'navigateBackDesc': 'Navigate back',
+	'navigateForward': 'Navigate forward',
+	'navigateForwardDesc': 'Navigate forward',
+	'recordManualMoves': 'Record manual moves in history',
+	'recordManualMovesDesc': 'Also add large pans and zooms made directly on the canvas to the back/forward history',
+	'zoomGroup': 'Zoom to enclosing group',
+	'keepZoom': 'Center, keep zoom level',
+	'selectNode': 'Select node',
+	'openFile': 'Open file in new tab',
+	'shiftClickNavigationStrategy': 'Shift + click navigation strategy',
+	'shiftClickNavigationStrategyDesc': 'Navigation strategy for Shift + click on minimap',
+	'altClickNavigationStrategy': 'Alt + click navigation strategy',
+	'altClickNavigationStrategyDesc': 'Navigation strategy for Alt + click on minimap',
+	'middleClickNavigationStrategy': 'Middle click navigation strategy',
+	'middleClickNavigationStrategyDesc': 'Navigation strategy for middle click on minimap',
+	'doubleClickNavigationStrategy': 'Double click navigation strategy',
+	'doubleClickNavigationStrategyDesc': 'Navigation strategy for double click on minimap (the single click action is skipped; single clicks wait briefly to tell them apart)',
+	'animateNavigation': 'Animate navigation',
+	'animateNavigationDesc': 'Smoothly move the canvas view when navigating from the minimap; long jumps zoom out and back in. Scrolling, clicking or pressing a key stops the animation',
+	'animationDuration': 'Animation duration',
+	'animationDurationDesc': 'Duration of the navigation animation in milliseconds',
+	'animationEasing': 'Animation easing',
+	'animationEasingDesc': 'Speed curve of the navigation animation',
+	'easingLinear': 'Linear',
+	'easingIn': 'Ease in',
+	'easingOut': 'Ease out',
+	'easingInOut': 'Ease in and out',
+	'editMode': 'Edit mode: drag nodes in the minimap',
+	'zoomToNode': 'Zoom to node',
+	'panToNode': 'Pan to node',
+	'colorNone': 'Default color',
+	'color1': 'Red',
+	'color2': 'Orange',
+	'color3': 'Yellow',
+	'color4': 'Green',
+	'color5': 'Cyan',
+	'color6': 'Purple',
+	'copyCanvasLink': 'Copy link to canvas',
+	'canvasLinkCopied': 'Canvas link copied',
+	'layers': 'Layers',
+	'layerEdges': 'Edges',
+	'layerGroups': 'Groups',
+	'layerTextNodes': 'Text nodes',
+	'layerFileNodes': 'File nodes',
+	'layerLinkNodes': 'Link nodes',
+	'layerGroupLabels': 'Group labels',
+	'layerViewport': 'Viewport rectangle',
+	'legend': 'Legend',
+	'legendItemDesc': 'Click to highlight only this color, Alt + click to dim it',
+	'nextColorNode': 'Jump to next node of the chosen color',
+	'nextColorNodeDesc': 'Jump to next node of the color chosen in the legend',
+	'previousColorNode': 'Jump to previous node of the chosen color',
+	'previousColorNodeDesc': 'Jump to previous node of the color chosen in the legend',
+	'colorNames': 'Color names',
+	'colorNamesDesc': 'Names shown in the minimap color legend, e.g. "blocked" for red',
+	'lightPalette': 'Light theme colors',
+	'darkPalette': 'Dark theme colors',
+	'paletteDesc': 'Used while Obsidian is in this theme. Colors may be CSS variables such as var(--background-primary).',
+	'invalidColor': 'Not a valid color. Use hex, rgb(), hsl(), a color name or var(--name).',
+	'canvasLinkCopyFailed': 'Could not copy the link to the clipboard',
 };
 
 export default translations;
\ No newline at end of file
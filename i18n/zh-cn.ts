@@ -28,10 +28,12 @@ const translations = {
 	'hijackToolbarDesc': '将工具栏移到小地图上方',
 	'drawActiveViewport': '绘制活动视口',
 	'drawActiveViewportDesc': '在小地图上绘制活动视口',
+	'panOnEmptyClick': '点击空白处平移',
+	'panOnEmptyClickDesc': '点击小地图空白处时，将画布中心移动到该点',
 	'primaryNavigationStrategy': '主要导航策略',
 	'primaryNavigationStrategyDesc': '主要导航策略（直接点击小地图）',
 	'secondaryNavigationStrategy': '次要导航策略',
-	'secondaryNavigationStrategyDesc': '次要导航策略（Ctrl + 点击小地图）',
+	'secondaryNavigationStrategyDesc': '次要导航策略（Ctrl + 点击小地图，macOS 上为 Cmd + 点击）',
 	'pan': '直接移动',		//将摄像头直接移动到目标位置
 	'zoom': '缩放移动',		//移动到选定目标的分组框，然后缩放适应
 	'none': '无',
@@ -54,7 +56,100 @@ const translations = {
 	'nodeOpacity': '节点透明度',
 	'nodeOpacityDesc': '自定义小地图中节点的透明度',
 	'linkColor': '连线颜色',
-	'linkColorDesc': '自定义小地图中连线的颜色'
+	'linkColorDesc': '自定义小地图中连线的颜色',
+	'rendererBackend': '渲染方式',
+	'rendererBackendDesc': '小地图的绘制方式。自动模式下小型白板使用 SVG，大型白板使用 Canvas',
+	'rendererAuto': '自动',
+	'canvasRendererThreshold': 'Canvas 渲染阈值',
+	'canvasRendererThresholdDesc': '节点数量超过该值时切换为 Canvas 渲染（仅自动模式）',
+	'renderInWorker': '在后台线程渲染',
+	'renderInWorkerDesc': '在支持时由 OffscreenCanvas Worker 进行 Canvas 渲染',
+	'collapse': '折叠小地图',
+	'expand': '展开小地图',
+	'tooltipGroup': '分组',
+	'tooltipText': '文本',
+	'tooltipFile': '文件',
+	'tooltipLink': '链接',
+	'tooltipImage': '图片',
+	'tooltipEdge': '连线',
+	'tooltipMissingFile': '文件不存在',
+	'showTooltips': '显示悬停提示',
+	'showTooltipsDesc': '鼠标悬停在小地图上时显示节点和连线的详细信息',
+	'searchPlaceholder': '搜索节点…',
+	'jumpToNode': '跳转到白板节点',
+	'jumpToNodeDesc': '跳转到白板节点',
+	'jumpToNodePlaceholder': '输入以搜索白板节点…',
+	'saveViewpoint': '将当前视图保存为视点',
+	'saveViewpointDesc': '将当前视图保存为视点',
+	'goToViewpoint': '跳转到视点',
+	'goToViewpointDesc': '跳转到视点',
+	'viewpoints': '视点',
+	'viewpoint': '视点',
+	'viewpointName': '视点名称',
+	'removeViewpoint': '删除视点',
+	'noViewpoints': '没有保存的视点',
+	'save': '保存',
+	'navigateBack': '后退',
+	'navigateBackDesc': '返回上一个视图',
+	'navigateForward': '前进',
+	'navigateForwardDesc': '前进到下一个视图',
+	'recordManualMoves': '在历史中记录手动移动',
+	'recordManualMovesDesc': '直接在白板上进行的大幅平移和缩放也记入前进/后退历史',
+	'zoomGroup': '缩放到所在分组',
+	'keepZoom': '居中并保持缩放',
+	'selectNode': '选中节点',
+	'openFile': '在新标签页打开文件',
+	'shiftClickNavigationStrategy': 'Shift + 点击导航策略',
+	'shiftClickNavigationStrategyDesc': '在小地图上按住 Shift 点击时的导航策略',
+	'altClickNavigationStrategy': 'Alt + 点击导航策略',
+	'altClickNavigationStrategyDesc': '在小地图上按住 Alt 点击时的导航策略',
+	'middleClickNavigationStrategy': '中键点击导航策略',
+	'middleClickNavigationStrategyDesc': '在小地图上点击鼠标中键时的导航策略',
+	'doubleClickNavigationStrategy': '双击导航策略',
+	'doubleClickNavigationStrategyDesc': '在小地图上双击时的导航策略（双击时不执行单击操作，设置后单击会稍有延迟以便区分）',
+	'animateNavigation': '导航过渡动画',
+	'animateNavigationDesc': '从小地图导航时平滑移动白板视图，长距离跳转时先缩小再放大；滚动、点击或按键会立即停止动画',
+	'animationDuration': '动画时长',
+	'animationDurationDesc': '导航过渡动画的时长（毫秒）',
+	'animationEasing': '动画缓动',
+	'animationEasingDesc': '导航过渡动画的速度曲线',
+	'easingLinear': '匀速',
+	'easingIn': '渐快',
+	'easingOut': '渐慢',
+	'easingInOut': '两端慢、中间快',
+	'editMode': '编辑模式：在小地图上拖动节点',
+	'zoomToNode': '缩放到节点',
+	'panToNode': '移动到节点',
+	'colorNone': '默认颜色',
+	'color1': '红色',
+	'color2': '橙色',
+	'color3': '黄色',
+	'color4': '绿色',
+	'color5': '青色',
+	'color6': '紫色',
+	'copyCanvasLink': '复制白板链接',
+	'canvasLinkCopied': '已复制白板链接',
+	'layers': '图层',
+	'layerEdges': '连线',
+	'layerGroups': '分组',
+	'layerTextNodes': '文本节点',
+	'layerFileNodes': '文件节点',
+	'layerLinkNodes': '链接节点',
+	'layerGroupLabels': '分组名称',
+	'layerViewport': '视口矩形',
+	'legend': '图例',
+	'legendItemDesc': '点击只突出该颜色，按住 Alt 点击淡化该颜色',
+	'nextColorNode': '跳转到所选颜色的下一个节点',
+	'nextColorNodeDesc': '跳转到图例中所选颜色的下一个节点',
+	'previousColorNode': '跳转到所选颜色的上一个节点',
+	'previousColorNodeDesc': '跳转到图例中所选颜色的上一个节点',
+	'colorNames': '颜色名称',
+	'colorNamesDesc': '小地图颜色图例中显示的名称，例如将红色命名为“阻塞”',
+	'lightPalette': '亮色主题配色',
+	'darkPalette': '暗色主题配色',
+	'paletteDesc': 'Obsidian 使用该主题时生效，颜色可以填写 CSS 变量，如 var(--background-primary)',
+	'invalidColor': '无法识别的颜色，请输入十六进制、rgb()、hsl()、颜色名称或 var(--name)',
+	'canvasLinkCopyFailed': '无法将链接复制到剪贴板',
 };
 
 export default translations;
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { App, FuzzyMatch, FuzzySuggestModal } from 'obsidian';
+import { around } from 'monkey-around';
+import { t } from 'i18n';
+import { Minimap } from 'minimap';
+import { nodeKindName, nodeKindOf } from 'node-glyphs';
+import { labelTextOf } from 'labels';
+import { searchTextOf } from 'search';
+import { excerpt } from 'tooltip';
+
+const EXCERPT_LENGTH = 80;
+
+function containsBBox(outer: any, inner: any) {
+	return inner.minX >= outer.minX && inner.maxX <= outer.maxX && inner.minY >= outer.minY && inner.maxY <= outer.maxY;
+}
+
+/**
+ * 列出当前白板所有节点的模糊搜索弹窗。
+ * 在候选项之间移动时在小地图上闪烁标出对应节点，选中后缩放白板到该节点。
+ */
+export class JumpToNodeModal extends FuzzySuggestModal<any> {
+	private minimap: Minimap;
+	private groups: any[];
+	private restoreChooser: (() => void) | null = null;
+
+	constructor(app: App, minimap: Minimap) {
+		super(app);
+		this.minimap = minimap;
+		this.setPlaceholder(t('jumpToNodePlaceholder'));
+		const nodes: any[] = Array.from(minimap.canvas.nodes.values());
+		this.groups = nodes.filter(n => nodeKindOf(n) === 'group');
+	}
+
+	onOpen() {
+		super.onOpen();
+		// 选项变化没有公开的事件，拦截内部 chooser 的 setSelectedItem
+		const chooser = (this as any).chooser;
+		const minimap = this.minimap;
+		if (chooser?.setSelectedItem) {
+			this.restoreChooser = around(chooser, {
+				setSelectedItem: (next: any) =>
+					function (index: number, ...args: any[]) {
+						const result = next.call(this, index, ...args);
+						const match: FuzzyMatch<any> | undefined = this.values?.[this.selectedItem];
+						if (match)
+							minimap.pulse(match.item);
+						return result;
+					},
+			});
+		}
+	}
+
+	onClose() {
+		super.onClose();
+		this.restoreChooser?.();
+		this.restoreChooser = null;
+	}
+
+	getItems(): any[] {
+		return Array.from(this.minimap.canvas.nodes.values());
+	}
+
+	getItemText(node: any): string {
+		return searchTextOf(node);
+	}
+
+	renderSuggestion(match: FuzzyMatch<any>, el: HTMLElement) {
+		const node = match.item;
+		const kind = nodeKindOf(node);
+		el.addClass('minimap-jump-suggestion');
+		el.createDiv({ cls: 'minimap-jump-title', text: labelTextOf(node) ?? nodeKindName(kind) });
+		// 类型与所在分组（由外到内）
+		const groups = this.groups
+			.filter(g => g !== node && containsBBox(g.bbox, node.bbox))
+			.sort((a, b) => (b.width * b.height) - (a.width * a.height))
+			.map(g => g.label || nodeKindName('group'));
+		el.createDiv({ cls: 'minimap-jump-meta', text: [nodeKindName(kind), ...groups].join(' › ') });
+		const text: string = node.text ?? node.unknownData?.text ?? '';
+		if (kind === 'text' && text.trim())
+			el.createDiv({ cls: 'minimap-jump-excerpt', text: excerpt(text.replace(/\s+/g, ' '), EXCERPT_LENGTH) });
+	}
+
+	onChooseItem(node: any) {
+		this.minimap.zoomToNode(node);
+	}
+}
@@ -0,0 +1,149 @@
+import { MinimapEmphasis, MinimapLabelItem, MinimapLabelKind } from 'renderer';
+import { QuadTree } from 'spatial-index';
+import { nodeFileOf, nodeKindOf } from 'node-glyphs';
+
+// 节点在小地图上至少这么宽（以字号计）才显示标签
+const MIN_NODE_WIDTH_EM = 4;
+// 连线两端点的距离在小地图上至少这么长（以字号计）才显示连线标签
+const MIN_EDGE_LENGTH_EM = 6;
+// 标签与节点边缘的间距（像素）
+const LABEL_PADDING = 2;
+const LINE_HEIGHT_EM = 1.2;
+
+// 节点的标签以节点范围为准；连线的标签以 (x, y) 为中点，width 为两端点的距离
+export interface LabelCandidate {
+	id: string;
+	kind: MinimapLabelKind;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	text: string;
+	emphasis: MinimapEmphasis;
+}
+
+// 去掉常见的 Markdown 标记，只保留可读文字
+function plainText(line: string) {
+	return line
+		.replace(/^\s*(#{1,6}|[-*+]|\d+\.|>)\s+/, '')
+		.replace(/!?\[\[([^\]|]*)\|?([^\]]*)\]\]/g, (_, target: string, alias: string) => alias || target)
+		.replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/[*_~`=]+/g, '')
+		.trim();
+}
+
+/**
+ * 节点的标签文字：分组为分组名，文本节点为第一个标题（没有标题时为第一行），
+ * 文件节点为文件名（不含扩展名）。没有可显示的文字时返回 null。
+ */
+export function labelTextOf(node: any): string | null {
+	const kind = nodeKindOf(node);
+	if (kind === 'group')
+		return node.label || null;
+	if (kind === 'file' || kind === 'image')
+		return nodeFileOf(node)?.basename ?? null;
+	if (kind === 'text') {
+		const lines: string[] = (node.text ?? node.unknownData?.text ?? '').split('\n');
+		const heading = lines.find(line => /^\s*#{1,6}\s+\S/.test(line));
+		const first = heading ?? lines.find(line => plainText(line).length > 0);
+		return first ? plainText(first) || null : null;
+	}
+	return null;
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+function measure(text: string, font: string) {
+	if (!measureContext)
+		measureContext = document.createElement('canvas').getContext('2d');
+	if (!measureContext)
+		return text.length * 0.6 * parseFloat(font);
+	measureContext.font = font;
+	return measureContext.measureText(text).width;
+}
+
+// 截断文字使其不超过 maxWidth，被截断时以省略号结尾
+function truncate(text: string, maxWidth: number, font: string) {
+	if (measure(text, font) <= maxWidth)
+		return text;
+	let low = 0, high = text.length;
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (measure(text.slice(0, mid) + '…', font) <= maxWidth)
+			low = mid;
+		else
+			high = mid - 1;
+	}
+	return low > 0 ? text.slice(0, low) + '…' : '';
+}
+
+/**
+ * 在屏幕像素空间中放置标签，避免互相重叠。
+ * 分组标签优先放在分组上方；节点标签放在节点内部，从顶部开始逐行尝试，
+ * 与已放置的标签重叠时下移一行，节点内放不下时不显示；连线标签居中放在曲线中点，最后放置。
+ * scale 为小地图当前的缩放比例（像素 / 画布单位），返回的坐标为画布坐标（文字基线）。
+ */
+export function layoutLabels(candidates: LabelCandidate[], scale: number, fontSize: number): MinimapLabelItem[] {
+	const result: MinimapLabelItem[] = [];
+	const placed = new QuadTree<string>();
+	const lineHeight = fontSize * LINE_HEIGHT_EM;
+	const fits = (id: string, left: number, top: number, width: number) => {
+		const bounds = { minX: left, minY: top, maxX: left + width, maxY: top + lineHeight };
+		if (placed.search(bounds).length > 0)
+			return false;
+		placed.insert(id, bounds, id);
+		return true;
+	};
+
+	// 被强调（如搜索命中）的优先，其次是分组，其余按节点面积从大到小放置
+	const highlighted = (c: LabelCandidate) => c.emphasis === 'match' || c.emphasis === 'current';
+	const ordered = candidates.slice().sort((a, b) => {
+		if (highlighted(a) !== highlighted(b))
+			return highlighted(a) ? -1 : 1;
+		if ((a.kind === 'group') !== (b.kind === 'group'))
+			return a.kind === 'group' ? -1 : 1;
+		if ((a.kind === 'edge') !== (b.kind === 'edge'))
+			return a.kind === 'edge' ? 1 : -1;
+		return b.width * b.height - a.width * a.height;
+	});
+
+	for (const c of ordered) {
+		const left = c.x * scale;
+		const top = c.y * scale;
+		const width = c.width * scale;
+		const height = c.height * scale;
+		if (c.kind === 'edge') {
+			if (width < fontSize * MIN_EDGE_LENGTH_EM)
+				continue;
+			const font = `${fontSize}px sans-serif`;
+			const text = truncate(c.text, width, font);
+			if (!text)
+				continue;
+			const textWidth = measure(text, font);
+			if (fits(c.id, left - textWidth / 2, top - lineHeight / 2, textWidth))
+				result.push({ id: c.id, kind: c.kind, x: (left - textWidth / 2) / scale, y: (top - lineHeight / 2 + fontSize) / scale, text, emphasis: c.emphasis });
+			continue;
+		}
+		if (c.kind === 'group') {
+			const font = `bold ${fontSize}px sans-serif`;
+			const text = truncate(c.text, Math.max(width, fontSize * MIN_NODE_WIDTH_EM), font);
+			if (text && fits(c.id, left, top - lineHeight, measure(text, font)))
+				result.push({ id: c.id, kind: c.kind, x: c.x, y: c.y - (lineHeight - fontSize) / scale, text, emphasis: c.emphasis });
+			continue;
+		}
+		if (width < fontSize * MIN_NODE_WIDTH_EM || height < lineHeight + LABEL_PADDING * 2)
+			continue;
+		const font = `${fontSize}px sans-serif`;
+		const text = truncate(c.text, width - LABEL_PADDING * 2, font);
+		if (!text)
+			continue;
+		const textWidth = measure(text, font);
+		for (let lineTop = top + LABEL_PADDING; lineTop + lineHeight <= top + height - LABEL_PADDING; lineTop += lineHeight) {
+			if (fits(c.id, left + LABEL_PADDING, lineTop, textWidth)) {
+				result.push({ id: c.id, kind: c.kind, x: (left + LABEL_PADDING) / scale, y: (lineTop + fontSize) / scale, text, emphasis: c.emphasis });
+				break;
+			}
+		}
+	}
+	return result;
+}
@@ -0,0 +1,111 @@
+import { setIcon } from 'obsidian';
+import { t } from 'i18n';
+import en from 'i18n/en';
+import { CANVAS_PRESET_COLORS, convertNodeColor } from 'color';
+
+// 颜色图例的筛选：isolate 只突出该颜色，dim 淡化该颜色
+export interface MinimapColorFilter {
+	color: string;
+	mode: 'isolate' | 'dim';
+}
+
+export interface LegendEntry {
+	// 节点的 color 属性（预设编号或十六进制颜色），'' 表示默认颜色
+	color: string;
+	count: number;
+}
+
+// 节点颜色的键：预设编号或小写的十六进制颜色，没有设置颜色时为 ''
+export function colorKeyOf(node: any): string {
+	return (node.color || '').toLowerCase();
+}
+
+// 颜色的显示名称：用户设置的名称优先，其次是预设颜色名，自定义颜色显示色值
+export function colorNameOf(color: string, names: Record<string, string>): string {
+	if (names[color])
+		return names[color];
+	if (!color)
+		return t('colorNone');
+	if (CANVAS_PRESET_COLORS[color])
+		return t(`color${color}` as keyof typeof en);
+	return color;
+}
+
+// 统计白板中各颜色的节点数，按预设编号、自定义颜色、默认颜色的顺序排列
+export function legendEntriesOf(nodes: Iterable<any>): LegendEntry[] {
+	const counts = new Map<string, number>();
+	for (const node of nodes) {
+		const color = colorKeyOf(node);
+		counts.set(color, (counts.get(color) ?? 0) + 1);
+	}
+	const rank = (color: string) => !color ? 2 : CANVAS_PRESET_COLORS[color] ? 0 : 1;
+	return Array.from(counts, ([color, count]) => ({ color, count }))
+		.sort((a, b) => rank(a.color) - rank(b.color) || a.color.localeCompare(b.color));
+}
+
+/**
+ * 小地图左下角的颜色图例：列出白板中使用的颜色及节点数，可以折叠。
+ * 点击条目只突出该颜色，按住 Alt 点击则淡化该颜色，再次点击取消筛选。
+ */
+export class MinimapLegend {
+	private el: HTMLElement;
+	private listEl: HTMLElement;
+	private toggleEl: HTMLElement;
+	private onToggle: () => void;
+	private onSelect: (filter: MinimapColorFilter | null) => void;
+	// 上次绘制的内容，没有变化时不重建 DOM
+	private rendered = '';
+
+	constructor(parent: HTMLElement, onToggle: () => void, onSelect: (filter: MinimapColorFilter | null) => void) {
+		this.onToggle = onToggle;
+		this.onSelect = onSelect;
+		this.el = parent.createDiv({ cls: 'minimap-legend' });
+		// 不让小地图处理图例上的鼠标操作（拖动、点击导航）
+		this.el.addEventListener('mousedown', e => e.stopPropagation());
+		this.el.addEventListener('click', e => e.stopPropagation());
+		this.el.addEventListener('wheel', e => e.stopPropagation());
+
+		const header = this.el.createDiv({ cls: 'minimap-legend-header' });
+		header.createSpan({ text: t('legend') });
+		this.toggleEl = header.createSpan({ cls: 'minimap-legend-toggle' });
+		header.addEventListener('click', () => this.onToggle());
+		this.listEl = this.el.createDiv({ cls: 'minimap-legend-list' });
+	}
+
+	// presets 为当前主题下的预设颜色
+	update(entries: LegendEntry[], names: Record<string, string>, presets: Record<string, string>, filter: MinimapColorFilter | null, collapsed: boolean) {
+		const rendered = JSON.stringify([entries, names, presets, filter, collapsed]);
+		if (rendered === this.rendered)
+			return;
+		this.rendered = rendered;
+
+		// 只有默认颜色时图例没有意义
+		this.el.toggle(entries.some(entry => entry.color));
+		this.el.toggleClass('is-collapsed', collapsed);
+		this.toggleEl.empty();
+		setIcon(this.toggleEl, collapsed ? 'chevron-up' : 'chevron-down');
+
+		this.listEl.empty();
+		if (collapsed)
+			return;
+		for (const entry of entries) {
+			const active = filter?.color === entry.color ? filter.mode : null;
+			const item = this.listEl.createDiv({ cls: 'minimap-legend-item' });
+			item.toggleClass('is-isolated', active === 'isolate');
+			item.toggleClass('is-dimmed', active === 'dim' || (filter?.mode === 'isolate' && !active));
+			item.setAttribute('aria-label', t('legendItemDesc'));
+			const swatch = item.createSpan({ cls: 'minimap-legend-swatch' });
+			swatch.style.backgroundColor = convertNodeColor(entry.color, presets);
+			item.createSpan({ cls: 'minimap-legend-name', text: colorNameOf(entry.color, names) });
+			item.createSpan({ cls: 'minimap-legend-count', text: String(entry.count) });
+			item.addEventListener('click', (e: MouseEvent) => {
+				const mode = e.altKey ? 'dim' : 'isolate';
+				this.onSelect(active === mode ? null : { color: entry.color, mode });
+			});
+		}
+	}
+
+	destroy() {
+		this.el.remove();
+	}
+}
@@ -1,8 +1,15 @@
-import { App, TAbstractFile, Plugin, PluginSettingTab, Setting, FileView, Keymap, Events } from 'obsidian';
-import * as d3 from "d3";
+import { App, TAbstractFile, TFile, Plugin, PluginSettingTab, Setting, ColorComponent, TextComponent, FileView, Events, WorkspaceLeaf } from 'obsidian';
 import { assert } from 'console';
 import { around } from 'monkey-around'; // for canvas patching
 import { t } from 'i18n';
+import en from 'i18n/en';
+import { MinimapRendererBackend, MinimapViewBox } from 'renderer';
+import { Minimap } from 'minimap';
+import { ThumbnailCache } from 'thumbnails';
+import { isImageFile } from 'node-glyphs';
+import { JumpToNodeModal } from 'jump-modal';
+import { CameraEasing } from 'camera';
+import { CANVAS_PRESET_COLORS, RGBAColor, formatHexColor, parseColor } from 'color';
 
 // Obsidian canvas types
 interface CanvasRect{
@@ -23,95 +30,86 @@ class CanvasEvent extends Events {
 	  super();
 	}
 }
-type CanvasEventType = "CANVAS_MOVED" | "CANVAS_DIRTY" | "CANVAS_VIEWPORT_CHANGED" | "CANVAS_TICK";
-type CanvasNavigationStrategy = "PAN" | "ZOOM" | "NONE";
-
-class Vector2 {
-	x: number
-	y: number
-	constructor(x: number, y: number) {
-		this.x = x
-		this.y = y
-	}
-	static add(a: Vector2, b: Vector2) {
-		return new Vector2(a.x + b.x, a.y + b.y)
+export type CanvasEventType = "CANVAS_MOVED" | "CANVAS_DIRTY" | "CANVAS_VIEWPORT_CHANGED" | "CANVAS_TICK" | "CANVAS_SELECTION_CHANGED";
+// ZOOM_GROUP：缩放到所在分组；KEEP_ZOOM：保持缩放级别居中，放不下时才缩小；SELECT：选中节点；OPEN_FILE：在新标签页打开文件节点
+export type CanvasNavigationStrategy = "PAN" | "ZOOM" | "ZOOM_GROUP" | "KEEP_ZOOM" | "SELECT" | "OPEN_FILE" | "NONE";
 
-	}
-	static sub(a: Vector2, b: Vector2) {
-		return new Vector2(a.x - b.x, a.y - b.y)
-	}
 
-	static len(a: Vector2) {
-		return Math.sqrt(Vector2.lenSq(a))
-	}
 
-	static lenSq(a: Vector2) {
-		return a.x * a.x + a.y * a.y
-	}
-}
+// Remember to rename these classes and interfaces!
+// 小地图中可以单独隐藏的图层；视口矩形由 drawActiveViewport 控制
+export type MinimapLayer = 'edges' | 'groups' | 'textNodes' | 'fileNodes' | 'linkNodes' | 'groupLabels';
 
-class BoundingBox {
-	minX: number
-	minY: number
-	maxX: number
-	maxY: number
-	constructor(min_x = 0, min_y = 0, max_x = 0, max_y = 0) {
-		this.minX = min_x
-		this.minY = min_y
-		this.maxX = max_x
-		this.maxY = max_y
-	}
-	static fromRect(bbox: SVGRect | undefined) {
-		if (!bbox)
-			return new BoundingBox()
-		return new BoundingBox(bbox.x, bbox.y, bbox.x + bbox.width, bbox.y + bbox.height)
-	}
-	width() {
-		return this.maxX - this.minX
-	}
-	height() {
-		return this.maxY - this.minY
-	}
-	contains(p: Vector2) {
-		return p.x >= this.minX && p.x <= this.maxX && p.y >= this.minY && p.y <= this.maxY
-	}
-	isValid(){
-		return this.minX < this.maxX && this.minY < this.maxY	
-	}
-}
+export type MinimapTheme = 'light' | 'dark';
 
-function clamp(x: number, min: number, max: number) {
-	return Math.min(Math.max(x, min), max)
+// 一套主题下小地图使用的颜色，可以填写 CSS 变量，如 var(--background-primary)
+export interface MinimapPalette {
+	fontColor: string;
+	backgroundColor: string;
+	titleBarColor: string;
+	titleTextColor: string;
+	groupColor: string;
+	nodeColor: string;
+	linkColor: string;
 }
 
+export type MinimapSide = 'top-right' | 'top-left' | 'bottom-left' | 'bottom-right';
 
-// Remember to rename these classes and interfaces!
-type MinimapSide = 'top-right' | 'top-left' | 'bottom-left' | 'bottom-right';
-
-interface CanvasMinimapSettings {
+export interface CanvasMinimapSettings {
 	width: number;
 	height: number;
 	margin: number;
 	fontSize: number;
-	fontColor: string;
 	side: MinimapSide;
 	enabled: boolean;
-	backgroundColor: string;
-	groupColor: string;
-	nodeColor: string;
+	// 亮色、暗色主题各自的配色，随 Obsidian 的主题切换
+	palettes: Record<MinimapTheme, MinimapPalette>;
 	hijackToolbar: boolean;
 	drawActiveViewport: boolean;
+	layers: Record<MinimapLayer, boolean>;
+	legendCollapsed: boolean;
+	// 颜色图例中显示的颜色名称，键为预设编号或十六进制颜色
+	colorNames: Record<string, string>;
+	panOnEmptyClick: boolean;
+	showTooltips: boolean;
+	recordManualMoves: boolean;
+	animateNavigation: boolean;
+	animationDuration: number;
+	animationEasing: CameraEasing;
 	primaryNavigationStrategy: CanvasNavigationStrategy;
 	secondaryNavigationStrategy: CanvasNavigationStrategy;
+	shiftClickNavigationStrategy: CanvasNavigationStrategy;
+	altClickNavigationStrategy: CanvasNavigationStrategy;
+	middleClickNavigationStrategy: CanvasNavigationStrategy;
+	doubleClickNavigationStrategy: CanvasNavigationStrategy;
 	positionX: number;
 	positionY: number;
 	minimapOpacity: number;
-	titleBarColor: string;
-	titleTextColor: string;
 	useCanvasColors: boolean;
 	groupOpacity: number;
 	nodeOpacity: number;
-	linkColor: string;
+	rendererBackend: 'auto' | MinimapRendererBackend;
+	canvasRendererThreshold: number;
+	renderInWorker: boolean;
+	// 按白板文件路径保存的小地图状态
+	canvasStates: Record<string, MinimapCanvasState>;
+}
+
+// 每个白板各自的小地图状态：viewBox、窗口位置与大小、是否折叠
+export interface MinimapCanvasState {
+	viewBox: MinimapViewBox | null;
+	positionX: number;
+	positionY: number;
+	width: number;
+	height: number;
+	collapsed: boolean;
+	viewpoints: MinimapViewpoint[];
+}
+
+// 命名视点：保存时白板视口的范围（画布坐标）
+export interface MinimapViewpoint {
+	name: string;
+	bbox: { minX: number; minY: number; maxX: number; maxY: number };
 }
 
 const DEFAULT_SETTINGS: CanvasMinimapSettings = {
@@ -119,149 +117,68 @@ const DEFAULT_SETTINGS: CanvasMinimapSettings = {
 	height: 300,
 	margin: 800,
 	fontSize: 10,
-	fontColor: '#a39e9e',
 	side: 'bottom-right',
 	enabled: true,
-	backgroundColor: '#ffffff',
-	groupColor: '#bdd5de55',
-	nodeColor: '#cccccc66',
+	palettes: {
+		light: {
+			fontColor: 'var(--text-muted)',
+			backgroundColor: 'var(--background-primary)',
+			titleBarColor: '#00000008',
+			titleTextColor: 'var(--text-faint)',
+			groupColor: '#bdd5de55',
+			nodeColor: '#cccccc66',
+			linkColor: '#c0c0c0',
+		},
+		dark: {
+			fontColor: 'var(--text-muted)',
+			backgroundColor: 'var(--background-primary)',
+			titleBarColor: '#ffffff0d',
+			titleTextColor: 'var(--text-faint)',
+			groupColor: '#4a6b7855',
+			nodeColor: '#66666666',
+			linkColor: '#5c5c5c',
+		},
+	},
 	hijackToolbar: false,
 	drawActiveViewport: true,
+	layers: { edges: true, groups: true, textNodes: true, fileNodes: true, linkNodes: true, groupLabels: true },
+	legendCollapsed: false,
+	colorNames: {},
+	panOnEmptyClick: true,
+	showTooltips: true,
+	recordManualMoves: false,
+	animateNavigation: false,
+	animationDuration: 500,
+	animationEasing: 'ease-in-out',
 	primaryNavigationStrategy: 'ZOOM',
 	secondaryNavigationStrategy: 'PAN',
+	shiftClickNavigationStrategy: 'SELECT',
+	altClickNavigationStrategy: 'ZOOM_GROUP',
+	middleClickNavigationStrategy: 'OPEN_FILE',
+	doubleClickNavigationStrategy: 'NONE',
 	positionX: 0,
 	positionY: 0,
 	minimapOpacity: 1,
-	titleBarColor: '#00000008',
-	titleTextColor: '#00000077',
 	groupOpacity: 0.07,
 	nodeOpacity: 0.07,
 	useCanvasColors: true,
-	linkColor: '#c0c0c0',
-}
-
-function convertNodeColor(color: string) {
-    if (!color) return '#c0c0c0';
-	if (color.startsWith('#')) return color;
-	switch (color) {
-		case '1':
-			return '#e93147';
-		case '2':
-			return '#ec7500';
-		case '3':
-			return '#e0ac00';
-		case '4':
-			return '#08b94e';
-		case '5':
-			return '#00bfbc';
-		case '6':
-			return '#7852ee';
-		default:
-			return '#c0c0c0';
-	}
-}
-
-function addOpacityToHexColor(color: string, opacity: number): string {
-    // 确保颜色值以#开头
-    if (!color.startsWith('#')) {
-        console.error('Color must be in hex format starting with #');
-		return color;
-    }
-    
-    // 移除 # 符号
-    let hex = color.substring(1);
-    
-    // 确保是6位十六进制数
-    if (hex.length !== 6) {
-        console.error('Color must be in #RRGGBB format');
-		return color;
-    }
-    
-    // 将透明度转换为十六进制值 (0-255 to 00-FF)
-    const opacityHex = Math.round(opacity * 255).toString(16).padStart(2, '0');
-    
-    // 组合颜色和透明度
-    return `#${hex}${opacityHex}`;
-}
-
-function blendColorWithOpacity(color: string, opacity: number): string {
-    // 确保透明度在有效范围内
-    opacity = Math.max(0, Math.min(1, opacity));
-    const backgroundColor = '#ffffff'
-    // 验证输入颜色格式
-    if (!color.startsWith('#')) {
-        console.error('Color must be in hex format starting with #');
-        return backgroundColor;
-    }
-    
-    // 确保背景色是有效的六位十六进制颜色
-    if (!backgroundColor.startsWith('#') || backgroundColor.length !== 7) {
-        console.error('Background color must be in #RRGGBB format');
-        return backgroundColor;
-    }
-    
-    // 解析输入颜色
-    let hex = color.substring(1);
-    let r, g, b;
-    
-    // 处理不同格式的输入颜色
-    if (hex.length === 8) { // #RRGGBBAA format
-        r = parseInt(hex.substring(0, 2), 16);
-        g = parseInt(hex.substring(2, 4), 16);
-        b = parseInt(hex.substring(4, 6), 16);
-        // 使用参数中的透明度，而不是颜色本身的透明度
-        const effectiveAlpha = opacity;
-    } else if (hex.length === 6) { // #RRGGBB format
-        r = parseInt(hex.substring(0, 2), 16);
-        g = parseInt(hex.substring(2, 4), 16);
-        b = parseInt(hex.substring(4, 6), 16);
-        // 输入颜色是不透明的，应用参数中的透明度
-        const effectiveAlpha = opacity;
-    } else if (hex.length === 4) { // #RGBA format
-        r = parseInt(hex[0] + hex[0], 16);
-        g = parseInt(hex[1] + hex[1], 16);
-        b = parseInt(hex[2] + hex[2], 16);
-        // 使用参数中的透明度，而不是颜色本身的透明度
-        const effectiveAlpha = opacity;
-    } else if (hex.length === 3) { // #RGB format
-        r = parseInt(hex[0] + hex[0], 16);
-        g = parseInt(hex[1] + hex[1], 16);
-        b = parseInt(hex[2] + hex[2], 16);
-        // 输入颜色是不透明的，应用参数中的透明度
-        const effectiveAlpha = opacity;
-    } else {
-        console.error('Invalid color format');
-        return backgroundColor;
-    }
-    
-    // 解析背景色
-    const bgR = parseInt(backgroundColor.substring(1, 3), 16);
-    const bgG = parseInt(backgroundColor.substring(3, 5), 16);
-    const bgB = parseInt(backgroundColor.substring(5, 7), 16);
-    
-    // 应用 Alpha 合成公式
-    // 最终颜色 = 前景颜色 * alpha + 背景颜色 * (1 - alpha)
-    const finalR = Math.round(r * opacity + bgR * (1 - opacity));
-    const finalG = Math.round(g * opacity + bgG * (1 - opacity));
-    const finalB = Math.round(b * opacity + bgB * (1 - opacity));
-    
-    // 转换回十六进制格式
-    const blendedHex = '#' + 
-        finalR.toString(16).padStart(2, '0') +
-        finalG.toString(16).padStart(2, '0') +
-        finalB.toString(16).padStart(2, '0');
-        
-    return blendedHex;
+	rendererBackend: 'auto',
+	canvasRendererThreshold: 1000,
+	renderInWorker: true,
+	canvasStates: {},
 }
 
 export default class CanvasMinimap extends Plugin {
 	settings: CanvasMinimapSettings;
-	canvas_bounds: BoundingBox = new BoundingBox()
 	canvas_patched: boolean = false
 	canvas_event: CanvasEvent = new CanvasEvent()
 
-	// 添加一个属性保存当前的小地图位置，防止刷新后位置丢失
-	private currentViewBox: {x: number, y: number, width: number, height: number} | null = null;
+	// 每个打开的白板标签页（包括分屏）各有一个小地图
+	minimaps: Map<WorkspaceLeaf, Minimap> = new Map()
+	// 图片节点的缩略图，载入完成后重绘所有小地图
+	thumbnails: ThumbnailCache = new ThumbnailCache(this.app, () => {
+		this.minimaps.forEach(minimap => minimap.scheduleUpdate())
+	})
 
 	async onload() {
 		await this.loadSettings();
@@ -271,12 +188,6 @@ export default class CanvasMinimap extends Plugin {
 			// 切换小地图启用状态
 			this.settings.enabled = !this.settings.enabled;
 			this.saveSettings();
-			
-			if (this.settings.enabled) {
-				this.setupMinimap();
-			} else {
-				this.unloadMinimap();
-			}
 		});
 
 		this.addCommand({
@@ -284,9 +195,10 @@ export default class CanvasMinimap extends Plugin {
 			name: t('reloadDesc'),
 			checkCallback: (checking: boolean) => {
 
-				if (this.getActiveCanvas()) {
+				const minimap = this.getActiveMinimap()
+				if (minimap) {
 					if (!checking) {
-						this.resetMinimap()
+						minimap.reset()
 					}
 					return true;
 				}
@@ -307,293 +219,203 @@ export default class CanvasMinimap extends Plugin {
 			}
 		});
 
-		this.addSettingTab(new CanvasMinimapSettingTab(this.app, this));
-
-		this.app.workspace.onLayoutReady(() => {
-			this.setupMinimap()
-		})
-
-		this.registerEvent(this.app.workspace.on('active-leaf-change', () => {
-			this.reloadMinimap()
-		}))
-		this.registerEvent(this.app.workspace.on('resize', () => {
-			this.reloadMinimap()
-		}))
-
-		this.registerEvent(this.app.vault.on('modify', (file: TAbstractFile) => {
-			if(!this.getActiveCanvas())
-				return
-			const activeFile = this.app.workspace.getActiveFile()
-			// check if the file is the active file
-			if (activeFile && file.path === activeFile.path)
-			{
-				this.reloadMinimap()
+		this.addCommand({
+			id: t('jumpToNode'),
+			name: t('jumpToNodeDesc'),
+			checkCallback: (checking: boolean) => {
+				const minimap = this.getActiveMinimap()
+				if (minimap) {
+					if (!checking) {
+						new JumpToNodeModal(this.app, minimap).open()
+					}
+					return true;
+				}
 			}
-		}))
-	}
+		});
 
-	renderMinimap(svg: any, canvas: any) {
-		const nodes: Map<string, any> = canvas.nodes
-		const edges: Map<string, any> = canvas.edges
-
-		const sidePositionOf = (node: any, side: string) => {
-			const origin = new Vector2(node.x, node.y);
-			const radius = new Vector2(node.width / 2, node.height / 2);
-			const center = Vector2.add(origin, radius);
-
-			if (side == "left") {
-				return Vector2.sub(center, new Vector2(radius.x, 0));
-			} else if (side == "right") {
-				return Vector2.add(center, new Vector2(radius.x, 0));
-			} else if (side == "top") {
-				return Vector2.sub(center, new Vector2(0, radius.y));
-			} else if (side == "bottom") {
-				return Vector2.add(center, new Vector2(0, radius.y));
+		this.addCommand({
+			id: t('saveViewpoint'),
+			name: t('saveViewpointDesc'),
+			checkCallback: (checking: boolean) => {
+				const minimap = this.getActiveMinimap()
+				if (minimap) {
+					if (!checking) {
+						minimap.promptSaveViewpoint()
+					}
+					return true;
+				}
 			}
-			throw new Error(`invalid side ${side}`);
-		};
-
+		});
 
-		const bbox: BoundingBox = new BoundingBox();
-		const groups: Map<string, any> = new Map()
-		const children: Map<string, any> = new Map()
-		nodes.forEach((node: any) => {
-			bbox.minX = Math.min(bbox.minX, node.x);
-			bbox.minY = Math.min(bbox.minY, node.y);
-			bbox.maxX = Math.max(bbox.maxX, node.x + node.width);
-			bbox.maxY = Math.max(bbox.maxY, node.y + node.height);
-			// console.log('Node properties:', Object.keys(node));
-    		// console.log('Full node data:', node);
-			const nodeCanvasColor = node.color || '';
-			if (node.unknownData?.type === 'group') {
-				groups.set(node.id, node)
-			} else {
-				children.set(node.id, node)
+		this.addCommand({
+			id: t('navigateBack'),
+			name: t('navigateBackDesc'),
+			checkCallback: (checking: boolean) => {
+				const minimap = this.getActiveMinimap()
+				if (minimap?.history.canGoBack) {
+					if (!checking) {
+						minimap.goBack()
+					}
+					return true;
+				}
 			}
 		});
 
-		// save the canvas bounds
-		this.canvas_bounds = new BoundingBox(
-			bbox.minX - this.settings.margin, 
-			bbox.minY - this.settings.margin, 
-			bbox.maxX + this.settings.margin,
-			bbox.maxY + this.settings.margin)
-		
-		// 在设置新的viewBox之前，保存当前的viewBox状态
-		const currentSvg = svg.node();
-		if (currentSvg) {
-			const viewBoxAttr = currentSvg.getAttribute('viewBox');
-			if (viewBoxAttr) {
-				const [x, y, width, height] = viewBoxAttr.split(' ').map(Number);
-				// 仅当当前视图框不是初始状态时才保存（防止覆盖已有的自定义视图）
-				if (this.currentViewBox || 
-				    (x !== this.canvas_bounds.minX || y !== this.canvas_bounds.minY || 
-				     width !== this.canvas_bounds.width() || height !== this.canvas_bounds.height())) {
-					this.currentViewBox = {x, y, width, height};
+		this.addCommand({
+			id: t('navigateForward'),
+			name: t('navigateForwardDesc'),
+			checkCallback: (checking: boolean) => {
+				const minimap = this.getActiveMinimap()
+				if (minimap?.history.canGoForward) {
+					if (!checking) {
+						minimap.goForward()
+					}
+					return true;
 				}
 			}
-		}
-		
-		// 应用viewBox，优先使用保存的视图框状态
-		if (this.currentViewBox) {
-			// 确保保存的viewBox值在画布范围内
-			const clampedX = Math.max(this.canvas_bounds.minX, Math.min(this.currentViewBox.x, this.canvas_bounds.maxX - this.currentViewBox.width));
-			const clampedY = Math.max(this.canvas_bounds.minY, Math.min(this.currentViewBox.y, this.canvas_bounds.maxY - this.currentViewBox.height));
-			const clampedWidth = Math.min(this.currentViewBox.width, this.canvas_bounds.width());
-			const clampedHeight = Math.min(this.currentViewBox.height, this.canvas_bounds.height());
-			
-			svg.attr("viewBox", `${clampedX} ${clampedY} ${clampedWidth} ${clampedHeight}`);
-		} else {
-			// 使用默认的viewBox
-			svg.attr("viewBox", `${this.canvas_bounds.minX} ${this.canvas_bounds.minY} ${this.canvas_bounds.width()} ${this.canvas_bounds.height()}`);
-		}
-			
-			
-		let bg = svg.append('g')
-			.attr('id', 'minimap_bg')
-		let mg = svg.append('g')
-			.attr('id', 'minimap_mg')
-		let fg = svg.append('g')
-			.attr('id', 'minimap_fg')
-		let ffg = svg.append('g')
-			.attr('id', 'minimap_ffg')
-
-		children.forEach((n: any) => {
-			const g = fg.append('g')
-			const rect = g.append("rect");
-			const props = Object.entries(n);
-			const strokeColor = convertNodeColor(n.color || '#c0c0c0');
-			const fillColor = blendColorWithOpacity(strokeColor, this.settings.nodeOpacity);
-			for (const [k, v] of props) {
-				if (k === 'x' || k === 'y' || k === 'width' || k === 'height' || k === 'id')
-					rect.attr(k, v);
-			}
-			
-			if(this.settings.useCanvasColors){
-				rect.attr("stroke", strokeColor);
-				rect.attr("fill", fillColor);
-			} else {
-				rect.attr("fill", this.settings.nodeColor);
-			}
-
-		})
-
-
-		groups.forEach((n: any) => {
-			const g = mg.append('g')
-			const rect = g.append("rect");
-			const strokeColor = convertNodeColor(n.color || '#c0c0c0');
-			const fillColor = addOpacityToHexColor(strokeColor, this.settings.groupOpacity);
+		});
 
-			const props = Object.entries(n);
-			for (const [k, v] of props) {
-				// allowed props: x, y, width, height, id
-				if (k === 'x' || k === 'y' || k === 'width' || k === 'height' || k === 'id')
-					rect.attr(k, v);
-			}
-			if(this.settings.useCanvasColors){
-				rect.attr("stroke", strokeColor);
-				rect.attr("fill", fillColor);
-			} else {
-				rect.attr("fill", this.settings.groupColor);
+		this.addCommand({
+			id: t('nextColorNode'),
+			name: t('nextColorNodeDesc'),
+			checkCallback: (checking: boolean) => {
+				const minimap = this.getActiveMinimap()
+				if (minimap?.colorFilter) {
+					if (!checking) {
+						minimap.stepColor(1)
+					}
+					return true;
+				}
 			}
+		});
 
-			const label: string = n.label
-			if (label) {
-				const svgNode = svg.node() ? svg.node() : svg;
-				const rect = svgNode.getBoundingClientRect();
-
-				let viewBoxLevel = 1;
-				const current_bbox = svg.attr("viewBox");
-
-				if (current_bbox) {
-					const [x, y, width, height] = current_bbox.split(' ').map(Number);
-					const levelWidth =  rect.width / width;
-					const levelHeight = rect.height / height;
-					viewBoxLevel = Math.min(levelWidth, levelHeight);
-				} 
-
-				const font_size = (this.settings.fontSize / viewBoxLevel);
-				const font_offset = (1.5 / viewBoxLevel);
-				const stroke_offset = (0.5 / viewBoxLevel);
-				
-				const text = fg.append("text")
-				text
-					.text(label)
-					.attr("x", n.x)
-					.attr("y", n.y - font_offset)
-					.attr("text-anchor", "left")
-					.attr("alignment-baseline", "left")
-					.attr("fill", this.settings.fontColor)
-					.attr("font-size", font_size + "px")
-					.attr("font-weight", "bold")
-					.style("stroke", "#ffffff")          
-					.style("stroke-width", stroke_offset)
-					.style("paint-order", "stroke fill")
-					
+		this.addCommand({
+			id: t('previousColorNode'),
+			name: t('previousColorNodeDesc'),
+			checkCallback: (checking: boolean) => {
+				const minimap = this.getActiveMinimap()
+				if (minimap?.colorFilter) {
+					if (!checking) {
+						minimap.stepColor(-1)
+					}
+					return true;
+				}
 			}
-		})
-		
-		edges.forEach((e: any) => {
-			const fromPos = sidePositionOf(e.from.node, e.from.side);
-			const toPos = sidePositionOf(e.to.node, e.to.side);
-
-
-			const linkAnchor = (side: string) => {
-				if (side == "left" || side == "right") return d3.linkHorizontal();
-				else return d3.linkVertical();
-			};
-			const link = linkAnchor(e.fromSide)(
-				{
-					source: [fromPos.x, fromPos.y],
-					target: [toPos.x, toPos.y]
-				});
-			//console.log(e, fromPos, toPos, link)
-			mg
-				.append("path")
-				.attr("d", link)
-				//.attr("marker-end", "url(#arrowhead-end)")
-				.attr("stroke", this.settings.linkColor)
-				.attr("stroke-width", 4)
-				.attr("fill", "none");
-
-			ffg
-				.append("path")
-				.attr("d", link)
-				.attr("stroke-width", 8)
-				.attr("fill", "none");
+		});
+
+		// 跳转到第 1~9 个视点
+		for (let i = 1; i <= 9; i++) {
+			this.addCommand({
+				id: `${t('goToViewpoint')} ${i}`,
+				name: `${t('goToViewpointDesc')} ${i}`,
+				checkCallback: (checking: boolean) => {
+					const minimap = this.getActiveMinimap()
+					if (minimap && minimap.canvasState.viewpoints.length >= i) {
+						if (!checking) {
+							minimap.goToViewpoint(i - 1)
+						}
+						return true;
+					}
+				}
+			});
+		}
+
+		this.addSettingTab(new CanvasMinimapSettingTab(this.app, this));
 
+		this.app.workspace.onLayoutReady(() => {
+			this.syncMinimaps()
 		})
 
-		ffg.append('rect')
-			.attr('id', 'minimap_viewport')
-			.attr('fill', 'none')
+		// 打开、关闭、分屏或切换白板时，为新出现的白板创建小地图并移除失效的
+		this.registerEvent(this.app.workspace.on('layout-change', () => {
+			this.syncMinimaps()
+		}))
+		this.registerEvent(this.app.workspace.on('active-leaf-change', () => {
+			this.syncMinimaps()
+		}))
+		this.registerEvent(this.app.workspace.on('file-open', () => {
+			this.minimaps.forEach(minimap => minimap.scheduleUpdate())
+		}))
+		this.registerEvent(this.app.workspace.on('resize', () => {
+			this.minimaps.forEach(minimap => minimap.refresh())
+		}))
+		// 切换亮色/暗色主题、更换主题或 CSS 片段时，按新的配色重绘
+		this.registerEvent(this.app.workspace.on('css-change', () => {
+			this.minimaps.forEach(minimap => minimap.refresh())
+		}))
 
-	}
+		// 白板文件重命名或删除时，同步迁移或清理保存的小地图状态
+		this.registerEvent(this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+			this.thumbnails.forget(oldPath)
+			const changed = this.renameCanvasStates(oldPath, file.path)
+			this.minimaps.forEach(minimap => minimap.syncCanvasState())
+			if (changed)
+				this.saveSettings(false)
+		}))
+		this.registerEvent(this.app.vault.on('delete', (file: TAbstractFile) => {
+			this.thumbnails.forget(file.path)
+			if (this.renameCanvasStates(file.path, null))
+				this.saveSettings(false)
+		}))
 
-	renderCanvasViewport(canvas: any) {
-		if(!this.settings.drawActiveViewport)
-			return
-		if(!canvas)
-			return
-		let canvas_bbox = canvas.getViewportBBox()
-		const svg = d3.select('body')
-			.select('#_minimap_ > svg')
-		
-		svg.select('#minimap_viewport')
-			.attr('x', canvas_bbox.minX)
-			.attr('y', canvas_bbox.minY)
-			.attr('width', canvas_bbox.maxX - canvas_bbox.minX)
-			.attr('height', canvas_bbox.maxY - canvas_bbox.minY)
-			.attr('fill', 'azure')
-			.attr('fill-opacity', '0.1')
-			.attr('stroke', 'orange')
-			.attr('stroke-width', '12')
+		this.registerEvent(this.app.vault.on('modify', (file: TAbstractFile) => {
+			// 图片文件变化时缩略图需要重新生成，可能出现在任意白板中
+			const isImage = file instanceof TFile && isImageFile(file)
+			this.minimaps.forEach(minimap => {
+				if (isImage || minimap.canvas?.view?.file?.path === file.path)
+					minimap.scheduleUpdate()
+			})
+		}))
 	}
 
 	onunload() {
-		this.unloadMinimap()
-	}
-
-	static onCanvasUpdate(_:any, ctx: CanvasMinimap) {
-		ctx.renderCanvasViewport(ctx.getActiveCanvas())
+		this.minimaps.forEach(minimap => minimap.destroy())
+		this.minimaps.clear()
+		this.thumbnails.clear()
 	}
 
-	dispatchCanvasEvent(type: CanvasEventType, e: any) {
-		this.canvas_event.trigger(type, e, this)
+	// 补丁方法中的 this 是触发事件的画布，小地图据此只响应自己的白板
+	dispatchCanvasEvent(type: CanvasEventType, canvas: any, e: any) {
+		this.canvas_event.trigger(type, canvas, e)
 	}
 
 	// adapt from https://github.com/Quorafind/Obsidian-Collapse-Node/blob/master/src/canvasCollapseIndex.ts#L89
 	patchCanvas(canvas:any) {
 		let that = this
-		if(canvas){
+		// 补丁打在原型上，所有画布共享，只需安装一次
+		if(canvas && !this.canvas_patched){
 			const uninstaller = around(canvas.constructor.prototype, {
 				markMoved: (next: any) =>
 					function (e: any) {
 						next.call(this, e);
-						that.dispatchCanvasEvent('CANVAS_MOVED', e)
+						that.dispatchCanvasEvent('CANVAS_MOVED', this, e)
 					},
 				markDirty: (next: any) =>
 					function (e: any) {
 						next.call(this, e);
-						that.dispatchCanvasEvent('CANVAS_DIRTY', e)
+						that.dispatchCanvasEvent('CANVAS_DIRTY', this, e)
 					},
 				markViewportChanged: (next: any) =>
 					function () {
 						next.call(this);
-						that.dispatchCanvasEvent('CANVAS_VIEWPORT_CHANGED', null)
+						that.dispatchCanvasEvent('CANVAS_VIEWPORT_CHANGED', this, null)
+					},
+				// select、deselectAll 等修改选中项的操作都经由 updateSelection
+				updateSelection: (next: any) =>
+					function (...args: any[]) {
+						const result = next.call(this, ...args);
+						that.dispatchCanvasEvent('CANVAS_SELECTION_CHANGED', this, null)
+						return result;
 					},
 				requestFrame: (next: any) =>
 					function (e: any) {
 						next.call(this, e);
-						that.dispatchCanvasEvent('CANVAS_TICK', null)
+						that.dispatchCanvasEvent('CANVAS_TICK', this, null)
 					},
 			});
 			this.register(uninstaller);
 			this.canvas_patched = true;
 		}
-		// register event listeners
-		this.canvas_event.on('CANVAS_TICK', CanvasMinimap.onCanvasUpdate)
 	}
 
 	getActiveCanvas(): any {
@@ -603,569 +425,113 @@ export default class CanvasMinimap extends Plugin {
 		return (currentView as any)['canvas']
 	}
 
-	reloadMinimap() {
-		this.unloadMinimap()
-		this.setupMinimap()
-	}
-
-	resetMinimap() {
-		this.currentViewBox = null; // 重置当前viewBox以强制重新计算位置
-		this.unloadMinimap()
-		this.setupMinimap()
-	}
-	unloadMinimap() {
-		const active_canvas = this.getActiveCanvas()
-		if (active_canvas) {
-			// 修改：从body中移除小地图，而不是从画布容器中移除
-			const container = d3.select('body')
-			const minimap = container.select('#_minimap_')
-			if (!minimap.empty()) {
-				minimap.remove()
-			}
-			const toolbar = container.select('#_minimap_toolbar_')
-			if (!toolbar.empty()) {
-				toolbar.remove()
-			}
-
-			// remove canvas event listeners
-			this.canvas_event.off('CANVAS_TICK', CanvasMinimap.onCanvasUpdate)
+	getActiveMinimap(): Minimap | null {
+		const canvas = this.getActiveCanvas()
+		if (!canvas)
+			return null
+		for (const minimap of this.minimaps.values()) {
+			if (minimap.canvas === canvas)
+				return minimap
 		}
+		return null
 	}
-	
-	// 添加一个新方法，用于将小地图移动到预设位置
-	moveToPresetPosition() {
-		if (!this.getActiveCanvas()) return;
-		
-		const active_canvas = this.getActiveCanvas();
-		const div = d3.select('#_minimap_');
-		
-		if (div.empty()) return;
-		
-		let newX, newY;
-		const rect = active_canvas.wrapperEl.getBoundingClientRect();
-		switch (this.settings.side) {
-			case 'top-right':
-				newX = window.innerWidth - this.settings.width - 20;
-				newY = 20;
-				break;
-			case 'top-left':
-				newX = 20;
-				newY = 20;
-				break;
-			case 'bottom-left':
-				newX = 20;
-				newY = window.innerHeight - this.settings.height - 20;
-				break;
-			case 'bottom-right':
-				newX = window.innerWidth - this.settings.width - 20;
-				newY = window.innerHeight - this.settings.height - 20;
-				break;
+
+	// 让小地图实例与打开的白板标签页一一对应
+	syncMinimaps() {
+		const leaves = this.settings.enabled ? this.app.workspace.getLeavesOfType('canvas') : []
+		const alive = new Set<WorkspaceLeaf>()
+		for (const leaf of leaves) {
+			const canvas = (leaf.view as any)?.canvas
+			if (!canvas?.wrapperEl)
+				continue
+			alive.add(leaf)
+			const existing = this.minimaps.get(leaf)
+			if (existing?.canvas === canvas)
+				continue
+			// 标签页换成了另一个画布对象，重新创建
+			existing?.destroy()
+			this.patchCanvas(canvas)
+			const minimap = new Minimap(this, leaf, canvas)
+			this.minimaps.set(leaf, minimap)
+			minimap.mount()
 		}
-		
-		// 更新位置
-		div.style('left', newX + 'px')
-			.style('top', newY + 'px');
-		
-		// 更新设置中的位置
-		this.settings.positionX = newX;
-		this.settings.positionY = newY;
-		
-		// 保存设置
-		this.saveSettings();
+		this.minimaps.forEach((minimap, leaf) => {
+			if (!alive.has(leaf)) {
+				minimap.destroy()
+				this.minimaps.delete(leaf)
+			}
+		})
 	}
-	
-	setupMinimap() {
-		if (!this.settings.enabled) return
-		//let active_canvas = this.app.workspace.getActiveViewOfType("canvas")
-		const active_canvas = this.getActiveCanvas()
-
-		if (active_canvas) {
-			this.patchCanvas(active_canvas)
-
-			const container = d3.select(active_canvas.wrapperEl.parentNode)
-			const toolbar = container.selectAll('.canvas-controls').filter(":not(#_minimap_toolbar_)")
-			toolbar.style('display', 'flex') // restore toolbar if it was hidden
-			const toolbar_item_rect = (toolbar.select('.canvas-control-item').node() as HTMLElement)?.getBoundingClientRect()
-
-			let minimap = d3.select('#_minimap_')
-			if (minimap.empty()) {
-
-				
-					const div = d3.select('body').append('div').attr('id', '_minimap_')
-					.style('position', 'fixed') // 改为fixed定位
-					.style('width', this.settings.width + 'px')
-					.style('height', this.settings.height + 'px')
-					.style('background-color', this.settings.backgroundColor) // 设置背景色
-					.style('z-index', '40') // 降低层级，避免覆盖设置界面
-					.style('opacity', this.settings.minimapOpacity) // 使用设置的透明度
-					.style('pointer-events', 'all') // 允许交互
-					.style('border-radius', '5px')
-					.style('overflow', 'hidden')
-
-				// 根据设置的位置属性放置小地图，如果未设置则使用预设位置
-				if (this.settings.positionX !== 0 || this.settings.positionY !== 0) {
-					// 使用保存的位置
-					div.style('left', this.settings.positionX + 'px')
-						.style('top', this.settings.positionY + 'px')
-				} else {
-					// 使用预设位置
-					const side = this.settings.side
-					switch(side) {
-						case 'top-right':
-							div.style('top', '20px').style('right', '20px')
-							break
-						case 'top-left':
-							div.style('top', '20px').style('left', '20px')
-							break
-						case 'bottom-left':
-							div.style('bottom', '20px').style('left', '20px')
-							break
-						case 'bottom-right':
-							div.style('bottom', '20px').style('right', '20px')
-							break
-					}
-				}
 
-				// 添加标题栏
-				let isDragging = false;
-				let offsetX = 0;
-				let offsetY = 0;
-
-				const header = div.insert('div', ':first-child')
-					.attr('class', 'minimap-header')
-					.style('position', 'absolute')
-					.style('top', '0')
-					.style('left', '0')
-					.style('right', '0')
-					.style('height', '20px')
-					.style('background-color', this.settings.titleBarColor)
-					.style('cursor', 'move')
-					.style('display', 'flex')
-					.style('justify-content', 'space-between')
-					.style('align-items', 'center')
-					.style('padding', '0 4px')
-					.style('z-index', '41'); // 降低标题栏层级
-
-				header.append('span')
-					.attr('class', 'minimap-title')
-					.text('Canvas Minimap')
-					.style('color', this.settings.titleTextColor)
-					.style('font-size', '10px')
-					.style('font-weight', 'bold');
-
-				// 拖动功能
-				header.on('mousedown', (e) => {
-					isDragging = true;
-					const minimapNode = div.node();
-					if (!minimapNode) return;
-					const rect = minimapNode.getBoundingClientRect();
-					offsetX = e.clientX - rect.left;
-					offsetY = e.clientY - rect.top;
-					div.style('transition', 'none'); // 拖动时禁用过渡效果
-				});
-
-				d3.select('body').on('mousemove', (e) => {
-					if (isDragging) {
-						div
-							.style('left', (e.clientX - offsetX) + 'px')
-							.style('top', (e.clientY - offsetY) + 'px');
-					}
-				}).on('mouseup', () => {
-					if (isDragging) {
-						isDragging = false;
-						div.style('transition', 'box-shadow 0.2s ease'); // 拖动结束后恢复过渡效果
-						
-						// 保存当前位置
-						const left = parseFloat(div.style('left'));
-						const top = parseFloat(div.style('top'));
-						this.settings.positionX = left;
-						this.settings.positionY = top;
-						this.saveSettings();
-					}
-				});
-
-				// markers
-				const svg = div.append('svg')
-				const defs = svg.append("defs")
-				defs
-					.selectAll("marker")
-					.data(["arrowhead-start", "arrowhead-end"]) // Unique ids for start and end markers
-					.enter()
-					.append("marker")
-					.attr("id", (d: string) => d)
-					.attr("markerWidth", 10)
-					.attr("markerHeight", 7)
-					.attr("refX", (d: string) => (d === "arrowhead-start" ? 10 : 0)) // Adjust refX for start and end markers
-					.attr("refY", 3.5)
-					.attr("orient", "auto")
-					.append("polygon")
-					.attr("points", (d: string) =>
-						d === "arrowhead-start" ? "10 0, 0 3.5, 10 7" : "0 0, 10 3.5, 0 7"
-					);
-
-					// 添加缩放和平移功能的变量
-				let isSvgDragging = false;
-				let isRightDragging = false; // 专门用于右键拖动
-				let lastX = 0;
-				let lastY = 0;
-				
-					// 添加鼠标事件处理
-				svg.on('mousedown', (e: MouseEvent) => {
-					if (e.button === 0) { // 左键
-						isSvgDragging = true;
-						lastX = e.clientX;
-						lastY = e.clientY;
-						svg.style('cursor', 'grabbing');
-					} else if (e.button === 2) { // 右键
-						e.preventDefault(); // 阻止右键菜单
-						isRightDragging = true;
-						lastX = e.clientX;
-						lastY = e.clientY;
-						svg.style('cursor', 'grabbing');
-					}
-				});
-				
-				// 添加全局鼠标移动事件
-				const handleSvgMouseMove = (e: MouseEvent) => {
-					if (isSvgDragging || isRightDragging) {
-						const deltaX = e.clientX - lastX;
-						const deltaY = e.clientY - lastY;
-						
-						// 获取当前viewBox
-						const viewBox = svg.attr("viewBox").split(' ').map(Number);
-						const [x, y, width, height] = viewBox;
-						
-						// 计算平移量（根据缩放级别调整）
-						const scaleX = this.settings.width / width;
-						const scaleY = this.settings.height / height;
-						const actualDeltaX = -deltaX / scaleX;
-						const actualDeltaY = -deltaY / scaleY;
-						
-						// 更新viewBox以实现平移
-						const newX = x + actualDeltaX;
-						const newY = y + actualDeltaY;
-						
-						svg.attr(
-							"viewBox",
-							`${newX} ${newY} ${width} ${height}`
-						);
-						
-						// 更新保存的viewBox状态
-						this.currentViewBox = {
-							x: newX,
-							y: newY,
-							width: width,
-							height: height
-						};
-						
-						// 更新上次鼠标位置
-						lastX = e.clientX;
-						lastY = e.clientY;
-					}
-				};
-				
-				const handleSvgMouseUp = (e: MouseEvent) => {
-					if (isSvgDragging || isRightDragging) {
-						isSvgDragging = false;
-						isRightDragging = false;
-						svg.style('cursor', 'grab');
-					}
-				};
-
-
-				// 添加事件监听器到文档上，以确保即使鼠标移出小地图区域也能正常工作
-				document.addEventListener('mousemove', handleSvgMouseMove);
-				document.addEventListener('mouseup', handleSvgMouseUp);
-				document.addEventListener('contextmenu', (e: MouseEvent) => {
-					if (isRightDragging) {
-						e.preventDefault();
-						return false;
-					}
-				});
-
-				// 在插件卸载时清理事件监听器
-				this.register(() => {
-					document.removeEventListener('mousemove', handleSvgMouseMove);
-					document.removeEventListener('mouseup', handleSvgMouseUp);
-					document.removeEventListener('contextmenu', (e: MouseEvent) => {
-						if (isRightDragging) {
-							e.preventDefault();
-							return false;
-						}
-					});
-				});
-
-				minimap = d3.select('#_minimap_')
-				svg.on('click', (e: any) => {
-					if (isSvgDragging || isRightDragging) {
-						// 如果正在进行任何拖动操作，则不执行点击操作
-						return;
-					}
-					
-					const active_canvas = this.getActiveCanvas()
-
-					const p = d3.pointer(e)
-					const [x, y] = p
-					const svg_bbox = BoundingBox.fromRect(svg.node()?.getBBox())
-
-					if (!svg_bbox.contains(new Vector2(x, y))) {
-						return
-					}
-					const svg_nodes = Array.from(svg.selectAll('rect').filter(":not(#minimap_viewport)").nodes())
-
-					const target_nodes = svg_nodes.filter((n: any, i: number) => {
-						const bbox = BoundingBox.fromRect(n.getBBox())
-						return bbox.contains(new Vector2(x, y))
-					}).map((n: any) => active_canvas.nodes?.get(n.id))
-
-					if (target_nodes.length > 0) {
-						// focus to nearest node
-						let bbox = target_nodes[0].bbox
-						let distSq = Vector2.lenSq(new Vector2(bbox.minX - x, bbox.minY - y))
-						for (const n of target_nodes) {
-							const current_bbox = n.bbox
-							const current_distSq = Vector2.lenSq(new Vector2(current_bbox.minX - x, current_bbox.minY - y))
-							if (current_distSq < distSq) {
-								distSq = current_distSq
-								bbox = current_bbox
-							}
-						}	
-						const navigation_strategy = Keymap.isModifier(e, 'Ctrl') ? this.settings.secondaryNavigationStrategy : this.settings.primaryNavigationStrategy
-						if(navigation_strategy === 'PAN'){
-							active_canvas?.panTo(bbox.minX + (bbox.maxX - bbox.minX) / 2, bbox.minY + (bbox.maxY - bbox.minY) / 2)
-						}else if(navigation_strategy === 'ZOOM'){
-							active_canvas?.zoomToBbox(bbox)
-						}
-					}
+	reloadMinimaps() {
+		this.minimaps.forEach(minimap => minimap.reload())
+		this.syncMinimaps()
+	}
 
-				})
+	// 设置变更后刷新所有小地图；禁用时全部移除
+	refreshMinimaps() {
+		this.syncMinimaps()
+		this.minimaps.forEach(minimap => minimap.refresh())
+	}
 
-				// 添加鼠标滚轮事件，用于缩放小地图内部视图
-				svg.on('wheel', (e: WheelEvent) => {
-					if (e.ctrlKey) {
-						// 阻止默认滚动行为
-						e.preventDefault();
-						
-						const maxZoomFactor = 20; // 最大放大倍数
-						const baseViewWidth = this.canvas_bounds.width();
-						const baseViewHeight = this.canvas_bounds.height();
-						
-						// 获取当前viewBox
-						const viewBox = svg.attr("viewBox").split(' ').map(Number);
-						const [currentX, currentY, currentWidth, currentHeight] = viewBox;
-						
-						// 获取鼠标相对于SVG的位置
-						const mousePosition = d3.pointer(e, svg.node());
-						const [mouseX, mouseY] = mousePosition;
-						
-						// 计算缩放因子
-						const zoomFactor = e.deltaY < 0 ? 0.9 : 1.1; // 向上滚动放大，向下滚动缩小
-						
-						// 计算新的宽高
-						const newWidth = Math.max(50, Math.min(baseViewWidth, currentWidth * zoomFactor)); // 限制最小范围
-						const newHeight = Math.max(50, Math.min(baseViewHeight, currentHeight * zoomFactor));
-						
-						// 计算缩放后的新坐标，以保持鼠标位置下的内容不变
-						const newCenterX = currentX + (mouseX - currentX) * (1 - newWidth/currentWidth);
-						const newCenterY = currentY + (mouseY - currentY) * (1 - newHeight/currentHeight);
-						
-						// 更新SVG的viewBox
-						svg.attr(
-							"viewBox",
-							`${newCenterX} ${newCenterY} ${newWidth} ${newHeight}`
-						);
-						
-						// 保存当前viewBox状态
-						this.currentViewBox = {
-							x: newCenterX,
-							y: newCenterY,
-							width: newWidth,
-							height: newHeight
-						};
-						this.reloadMinimap()
-					}
-				})
+	// 移动当前白板的小地图到预设位置
+	moveToPresetPosition() {
+		this.getActiveMinimap()?.moveToPresetPosition()
+	}
 
-				// 创建四个边缘和角落的调整大小区域
-				const createResizeArea = (position: string) => {
-					const resizeArea = div.append('div')
-						.attr('class', `minimap-resize-area minimap-resize-${position}`)
-						.style('position', 'absolute')
-						.style('background-color', 'transparent') // 完全透明
-						.style('z-index', '42')
-						.style('cursor', position.includes('right') ? 'e-resize' : 'w-resize')
-						.style('pointer-events', 'auto'); // 确保可以接收鼠标事件
-					
-					// 设置不同位置的尺寸和光标
-					if (position === 'top') {
-						resizeArea
-							.style('top', '0')
-							.style('left', '4px') // 避开角落区域
-							.style('width', `calc(100% - 4px)`) // 避开左右角落
-							.style('height', '4px')
-							.style('cursor', 'n-resize');
-					} else if (position === 'bottom') {
-						resizeArea
-							.style('bottom', '0')
-							.style('left', '4px')
-							.style('width', `calc(100% - 4px)`)
-							.style('height', '4px')
-							.style('cursor', 's-resize');
-					} else if (position === 'left') {
-						resizeArea
-							.style('top', '4px') // 避开角落区域
-							.style('left', '0')
-							.style('width', '4px')
-							.style('height', `calc(100% - 4px)`) // 避开上下角落
-							.style('cursor', 'w-resize');
-					} else if (position === 'right') {
-						resizeArea
-							.style('top', '4px')
-							.style('right', '0')
-							.style('width', '4px')
-							.style('height', `calc(100% - 4px)`)
-							.style('cursor', 'e-resize');
-					} else if (position === 'top-left') {
-						resizeArea
-							.style('top', '0')
-							.style('left', '0')
-							.style('width', '4px')
-							.style('height', '4px')
-							.style('cursor', 'nw-resize');
-					} else if (position === 'top-right') {
-						resizeArea
-							.style('top', '0')
-							.style('right', '0')
-							.style('width', '4px')
-							.style('height', '4px')
-							.style('cursor', 'ne-resize');
-					} else if (position === 'bottom-left') {
-						resizeArea
-							.style('bottom', '0')
-							.style('left', '0')
-							.style('width', '4px')
-							.style('height', '4px')
-							.style('cursor', 'sw-resize');
-					} else if (position === 'bottom-right') {
-						resizeArea
-							.style('bottom', '0')
-							.style('right', '0')
-							.style('width', '4px')
-							.style('height', '4px')
-							.style('cursor', 'se-resize');
-					}
-					
-					return resizeArea;
-				};
-				
-				// 创建八个调整大小区域（四边+四角）
-				const resizeAreas: {[key: string]: any} = {};
-				const positions = ['top', 'right', 'bottom', 'left', 'top-left', 'top-right', 'bottom-left', 'bottom-right'];
-				
-				for (const pos of positions) {
-					resizeAreas[pos] = createResizeArea(pos);
-				}
-				
-				// 调整大小功能
-				const startResize = (e: MouseEvent, horizontal: 'left' | 'right' | 'both', vertical: 'top' | 'bottom' | 'both') => {
-					e.preventDefault();
-					e.stopPropagation();
-					
-					const startX = e.clientX;
-					const startY = e.clientY;
-					const startWidth = parseFloat(div.style('width'));
-					const startHeight = parseFloat(div.style('height'));
-					const startLeft = parseFloat(div.style('left'));
-					const startTop = parseFloat(div.style('top'));
-					
-					// 只在鼠标抬起时执行最终操作，不使用中间防抖
-					let isResizing = true; // 添加标志表示是否正在调整大小
-					
-					const handleMouseMove = (e: MouseEvent) => {
-						if (!isResizing) return; // 如果不在调整大小状态，直接返回
-						
-						const deltaX = e.clientX - startX;
-						const deltaY = e.clientY - startY;
-						
-						let newWidth = startWidth;
-						let newHeight = startHeight;
-						let newLeft = startLeft;
-						let newTop = startTop;
-						
-						if (horizontal === 'right' || horizontal === 'both') {
-							newWidth = Math.max(200, startWidth + deltaX); // 最小宽度200px
-						} else if (horizontal === 'left') {
-							const potentialNewWidth = startWidth - deltaX;
-							if (potentialNewWidth >= 200) { // 最小宽度200px
-								newWidth = potentialNewWidth;
-								newLeft = startLeft + deltaX;
-							}
-						}
-						
-						if (vertical === 'bottom' || vertical === 'both') {
-							newHeight = Math.max(150, startHeight + deltaY); // 最小高度150px
-						} else if (vertical === 'top') {
-							const potentialNewHeight = startHeight - deltaY;
-							if (potentialNewHeight >= 150) { // 最小高度150px
-								newHeight = potentialNewHeight;
-								newTop = startTop + deltaY;
-							}
-						}
-						
-						// 更新样式
-						div.style('width', newWidth + 'px')
-						   .style('height', newHeight + 'px')
-						   .style('left', newLeft + 'px')
-						   .style('top', newTop + 'px');
-						
-						// 更新设置中的尺寸（实时更新，但不触发重新渲染）
-						this.settings.width = newWidth;
-						this.settings.height = newHeight;
-						this.settings.positionX = newLeft;
-						this.settings.positionY = newTop;
-					};
-					
-					const handleMouseUp = () => {
-						if (!isResizing) return; // 如果已经结束，直接返回
-						isResizing = false; // 设置标志为false，表示不再调整大小
-						
-						// 立即保存最终设置并重新渲染
-						this.saveSettings();
-						// 重新渲染小地图以适应新的尺寸
-						this.renderMinimap(d3.select('#_minimap_>svg'), active_canvas);
-						
-						document.removeEventListener('mousemove', handleMouseMove);
-						document.removeEventListener('mouseup', handleMouseUp);
-					};
-					
-					document.addEventListener('mousemove', handleMouseMove);
-					document.addEventListener('mouseup', handleMouseUp);
-				};
-				
-				// 为各个调整区域添加事件监听器
-				resizeAreas['right'].on('mousedown', (e: MouseEvent) => startResize(e, 'right', 'both'));
-				resizeAreas['left'].on('mousedown', (e: MouseEvent) => startResize(e, 'left', 'both'));
-				resizeAreas['bottom'].on('mousedown', (e: MouseEvent) => startResize(e, 'both', 'bottom'));
-				resizeAreas['top'].on('mousedown', (e: MouseEvent) => startResize(e, 'both', 'top'));
-				resizeAreas['top-left'].on('mousedown', (e: MouseEvent) => startResize(e, 'left', 'top'));
-				resizeAreas['top-right'].on('mousedown', (e: MouseEvent) => startResize(e, 'right', 'top'));
-				resizeAreas['bottom-left'].on('mousedown', (e: MouseEvent) => startResize(e, 'left', 'bottom'));
-				resizeAreas['bottom-right'].on('mousedown', (e: MouseEvent) => startResize(e, 'right', 'bottom'));
-				// 不再需要在container上注册点击事件，因为svg已经能接收点击事件了
-			}
+	canvasStateFor(path: string | null): MinimapCanvasState {
+		const saved = path ? this.settings.canvasStates[path] : undefined
+		return Object.assign({
+			viewBox: null,
+			positionX: this.settings.positionX,
+			positionY: this.settings.positionY,
+			width: this.settings.width,
+			height: this.settings.height,
+			collapsed: false,
+			viewpoints: [],
+		}, saved)
+	}
 
-			this.renderMinimap(d3.select('#_minimap_>svg'), active_canvas)
+	// 迁移（newPath 为 null 时删除）路径本身及其子路径下保存的状态，返回是否有改动
+	renameCanvasStates(oldPath: string, newPath: string | null): boolean {
+		let changed = false
+		for (const path of Object.keys(this.settings.canvasStates)) {
+			if (path !== oldPath && !path.startsWith(oldPath + '/'))
+				continue
+			const state = this.settings.canvasStates[path]
+			delete this.settings.canvasStates[path]
+			if (newPath !== null)
+				this.settings.canvasStates[newPath + path.substring(oldPath.length)] = state
+			changed = true
 		}
+		return changed
 	}
 
 	async loadSettings() {
-		const loadedData = await this.loadData();
+		const loadedData: Partial<CanvasMinimapSettings> & Record<string, unknown> = Object.assign({}, await this.loadData());
+		// 旧版本只有一套（亮色）配色，直接保存在设置的顶层；迁移到 palettes.light，不再留在设置中
+		const legacy: Partial<MinimapPalette> = {};
+		for (const key of Object.keys(DEFAULT_SETTINGS.palettes.light) as (keyof MinimapPalette)[]) {
+			const value = loadedData[key];
+			if (typeof value === 'string')
+				legacy[key] = value;
+			delete loadedData[key];
+		}
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData);
+		this.settings.canvasStates = Object.assign({}, this.settings.canvasStates);
+		this.settings.layers = Object.assign({}, DEFAULT_SETTINGS.layers, this.settings.layers);
+		this.settings.colorNames = Object.assign({}, this.settings.colorNames);
+		this.settings.palettes = {
+			light: Object.assign({}, DEFAULT_SETTINGS.palettes.light, legacy, loadedData.palettes?.light),
+			dark: Object.assign({}, DEFAULT_SETTINGS.palettes.dark, loadedData.palettes?.dark),
+		};
 	}
 
-	async saveSettings() {
+	// refresh 为 false 时只持久化（如拖动、缩放窗口后保存位置），不重绘小地图
+	async saveSettings(refresh = true) {
 		await this.saveData(this.settings);
-		this.reloadMinimap()
+		if (refresh)
+			this.refreshMinimaps()
 	}
 }
 
@@ -1178,6 +544,58 @@ class CanvasMinimapSettingTab extends PluginSettingTab {
 		this.plugin = plugin;
 	}
 
+	// 一项主题配色：取色器与文本框（可以填写任意 CSS 颜色或变量）同步，输入时校验并预览，可恢复默认值
+	private addPaletteSetting(containerEl: HTMLElement, theme: MinimapTheme, key: keyof MinimapPalette, probe: HTMLElement) {
+		const palette = this.plugin.settings.palettes[theme];
+		let picker: ColorComponent;
+		let text: TextComponent;
+		const setting = new Setting(containerEl)
+			.setName(t(key))
+			.setDesc(t(`${key}Desc` as const))
+			.addExtraButton(button => button
+				.setIcon('reset')
+				.setTooltip('Reset to default')
+				.onClick(async () => {
+					palette[key] = DEFAULT_SETTINGS.palettes[theme][key];
+					await this.plugin.saveSettings();
+					this.display();
+				}))
+			.addColorPicker(colorPicker => picker = colorPicker
+				.onChange(async (value) => {
+					// 取色器不支持透明度，保留原有颜色的透明度
+					const picked = parseColor(value);
+					const alpha = parseColor(palette[key], probe)?.a ?? 1;
+					palette[key] = picked ? formatHexColor({ ...picked, a: alpha }) : value;
+					text.setValue(palette[key]);
+					preview(palette[key]);
+					await this.plugin.saveSettings();
+				}))
+			.addText(component => text = component
+				.setValue(palette[key])
+				.onChange(async (value) => {
+					// 无法解析的颜色只提示，不保存
+					if (!preview(value))
+						return;
+					palette[key] = value.trim();
+					await this.plugin.saveSettings();
+				}));
+		// 预览色块显示解析后的实际颜色（包括透明度）
+		const swatch = setting.controlEl.createDiv({ cls: 'minimap-color-swatch' });
+
+		const preview = (value: string): RGBAColor | null => {
+			const color = parseColor(value, probe);
+			setting.setDesc(color ? t(`${key}Desc` as const) : t('invalidColor'));
+			setting.descEl.toggleClass('minimap-color-error', !color);
+			text.inputEl.toggleClass('minimap-color-invalid', !color);
+			swatch.toggleClass('is-invalid', !color);
+			swatch.style.setProperty('--minimap-swatch-color', color ? formatHexColor(color) : 'transparent');
+			if (color)
+				picker.setValue(formatHexColor({ ...color, a: 1 }));
+			return color;
+		};
+		preview(palette[key]);
+	}
+
 	display(): void {
 		const { containerEl } = this;
 
@@ -1226,6 +644,7 @@ class CanvasMinimapSettingTab extends PluginSettingTab {
 				.onChange(async (value) => {
 					if(value && !isNaN(Number(value))){
 						this.plugin.settings.width = parseInt(value);
+						this.plugin.getActiveMinimap()?.updateCanvasState({ width: parseInt(value) });
 						await this.plugin.saveSettings();
 					}
 				}));
@@ -1238,6 +657,7 @@ class CanvasMinimapSettingTab extends PluginSettingTab {
 				.onChange(async (value) => {
 				if(value && !isNaN(Number(value))){ 
 					this.plugin.settings.height = parseInt(value);
+					this.plugin.getActiveMinimap()?.updateCanvasState({ height: parseInt(value) });
 					await this.plugin.saveSettings();
 				}
 			}));
@@ -1284,77 +704,6 @@ class CanvasMinimapSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
-		new Setting(containerEl)
-			.setName(t('fontColor'))
-			.setDesc(t('fontColorDesc'))
-			.addColorPicker(colorPicker => 
-				colorPicker
-					.setValue(this.plugin.settings.fontColor)
-					.onChange(async (value) => {
-						this.plugin.settings.fontColor = value;
-						await this.plugin.saveSettings();
-					}))
-			.addText(text => text
-				.setValue(this.plugin.settings.fontColor)
-				.onChange(async (value) => {
-					this.plugin.settings.fontColor = value;
-					await this.plugin.saveSettings();
-				}));
-			
-		
-		// 标题栏背景色设置
-		new Setting(containerEl)
-			.setName(t('titleBarColor'))
-			.setDesc(t('titleBarColorDesc'))
-			.addColorPicker(colorPicker => 
-				colorPicker
-					.setValue(this.plugin.settings.titleBarColor)
-					.onChange(async (value) => {
-						this.plugin.settings.titleBarColor = value;
-						await this.plugin.saveSettings();
-					}))
-			.addText(text => text
-				.setValue(this.plugin.settings.titleBarColor)
-				.onChange(async (value) => {
-					this.plugin.settings.titleBarColor = value;
-					await this.plugin.saveSettings();
-				}));
-		
-		// 标题文字颜色设置
-		new Setting(containerEl)
-			.setName(t('titleTextColor'))
-			.setDesc(t('titleTextColorDesc'))
-			.addColorPicker(colorPicker => 
-				colorPicker
-					.setValue(this.plugin.settings.titleTextColor)
-					.onChange(async (value) => {
-						this.plugin.settings.titleTextColor = value;
-						await this.plugin.saveSettings();
-					}))
-			.addText(text => text
-				.setValue(this.plugin.settings.titleTextColor)
-				.onChange(async (value) => {
-					this.plugin.settings.titleTextColor = value;
-					await this.plugin.saveSettings();
-				}));
-
-		new Setting(containerEl)
-			.setName(t('backgroundColor'))
-			.setDesc(t('backgroundColorDesc'))
-			.addColorPicker(colorPicker => 
-				colorPicker
-					.setValue(this.plugin.settings.backgroundColor)
-					.onChange(async (value) => {
-						this.plugin.settings.backgroundColor = value;
-						await this.plugin.saveSettings();
-					}))
-			.addText(text => text
-				.setValue(this.plugin.settings.backgroundColor)
-				.onChange(async (value) => {
-					this.plugin.settings.backgroundColor = value;
-					await this.plugin.saveSettings();
-				}));
-
 		// 添加使用 Canvas 颜色的开关
 		new Setting(containerEl)
 			.setName(t('useCanvasColors'))
@@ -1406,105 +755,198 @@ class CanvasMinimapSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 					this.display();
 				}));
-		} else {
-		    new Setting(containerEl)
-			.setName(t('groupColor'))
-			.setDesc(t('groupColorDesc'))
-			.addColorPicker(colorPicker => 
-				colorPicker
-					.setValue(this.plugin.settings.groupColor)
+		}
+
+		// 亮色、暗色主题各一套配色；useCanvasColors 开启时分组和节点使用白板颜色
+		const paletteKeys = (['fontColor', 'titleBarColor', 'titleTextColor', 'backgroundColor', 'groupColor', 'nodeColor', 'linkColor'] as const)
+			.filter(key => !this.plugin.settings.useCanvasColors || (key !== 'groupColor' && key !== 'nodeColor'));
+		for (const theme of ['light', 'dark'] as const) {
+			new Setting(containerEl)
+				.setName(t(`${theme}Palette` as const))
+				.setDesc(t('paletteDesc'))
+				.setHeading();
+			// 在对应主题的类名下解析 CSS 变量，取色器才能显示该主题下的实际颜色
+			const probe = containerEl.createDiv({ cls: `theme-${theme}` });
+			probe.hide();
+			for (const key of paletteKeys)
+				this.addPaletteSetting(containerEl, theme, key, probe);
+		}
+
+		// 颜色图例中预设颜色的名称，如“红色 = 阻塞”
+		new Setting(containerEl)
+			.setName(t('colorNames'))
+			.setDesc(t('colorNamesDesc'))
+			.setHeading();
+		for (const color of Object.keys(CANVAS_PRESET_COLORS)) {
+			new Setting(containerEl)
+				.setName(t(`color${color}` as keyof typeof en))
+				.addText(text => text
+					.setPlaceholder(t(`color${color}` as keyof typeof en))
+					.setValue(this.plugin.settings.colorNames[color] ?? '')
 					.onChange(async (value) => {
-						this.plugin.settings.groupColor = value;
+						if (value.trim())
+							this.plugin.settings.colorNames[color] = value.trim();
+						else
+							delete this.plugin.settings.colorNames[color];
 						await this.plugin.saveSettings();
-					}))
-			.addText(text => text
-				.setValue(this.plugin.settings.groupColor)
+					}));
+		}
+		new Setting(containerEl)
+			.setName(t('drawActiveViewport'))
+			.setDesc(t('drawActiveViewportDesc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.drawActiveViewport)
 				.onChange(async (value) => {
-					this.plugin.settings.groupColor = value;
+					this.plugin.settings.drawActiveViewport = value;
 					await this.plugin.saveSettings();
 				}));
 
 		new Setting(containerEl)
-			.setName(t('nodeColor'))
-			.setDesc(t('nodeColorDesc'))
-			.addColorPicker(colorPicker => 
-				colorPicker
-					.setValue(this.plugin.settings.nodeColor)
-					.onChange(async (value) => {
-						this.plugin.settings.nodeColor = value;
-						await this.plugin.saveSettings();
-					}))
-			.addText(text => text
-				.setValue(this.plugin.settings.nodeColor)
+			.setName(t('panOnEmptyClick'))
+			.setDesc(t('panOnEmptyClickDesc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.panOnEmptyClick)
 				.onChange(async (value) => {
-					this.plugin.settings.nodeColor = value;
+					this.plugin.settings.panOnEmptyClick = value;
 					await this.plugin.saveSettings();
 				}));
-		
-		
-		}
+
 		new Setting(containerEl)
-			.setName(t('linkColor'))
-			.setDesc(t('linkColorDesc'))
-			.addExtraButton(button => button
-				.setIcon('reset')
-				.setTooltip('Reset to default')
-				.onClick(async () => {
-					this.plugin.settings.linkColor = DEFAULT_SETTINGS.linkColor;
-					await this.plugin.saveSettings();
-					this.display();
-				}))
-			.addColorPicker(colorPicker => 
-				colorPicker
-					.setValue(this.plugin.settings.linkColor)
-					.onChange(async (value) => {
-						this.plugin.settings.linkColor = value;
-						await this.plugin.saveSettings();
-					}))
-			.addText(text => text
-				.setValue(this.plugin.settings.linkColor)
+			.setName(t('showTooltips'))
+			.setDesc(t('showTooltipsDesc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showTooltips)
 				.onChange(async (value) => {
-					this.plugin.settings.linkColor = value;
+					this.plugin.settings.showTooltips = value;
 					await this.plugin.saveSettings();
 				}));
+
 		new Setting(containerEl)
-			.setName(t('drawActiveViewport'))
-			.setDesc(t('drawActiveViewportDesc'))
+			.setName(t('recordManualMoves'))
+			.setDesc(t('recordManualMovesDesc'))
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.drawActiveViewport)
+				.setValue(this.plugin.settings.recordManualMoves)
 				.onChange(async (value) => {
-					this.plugin.settings.drawActiveViewport = value;
-					await this.plugin.saveSettings();
+					this.plugin.settings.recordManualMoves = value;
+					if (value)
+						this.plugin.minimaps.forEach(minimap => minimap.resetSettledViewport());
+					await this.plugin.saveSettings(false);
 				}));
-		
+
+		new Setting(containerEl)
+			.setName(t('animateNavigation'))
+			.setDesc(t('animateNavigationDesc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.animateNavigation)
+				.onChange(async (value) => {
+					this.plugin.settings.animateNavigation = value;
+					await this.plugin.saveSettings(false);
+				}));
+
+		new Setting(containerEl)
+			.setName(t('animationDuration'))
+			.setDesc(t('animationDurationDesc'))
+			.addSlider(slider => slider
+				.setLimits(100, 2000, 50)
+				.setValue(this.plugin.settings.animationDuration)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.animationDuration = value;
+					await this.plugin.saveSettings(false);
+				}))
+			.addExtraButton(button => button
+				.setIcon('reset')
+				.setTooltip('Reset to default')
+				.onClick(async () => {
+					this.plugin.settings.animationDuration = DEFAULT_SETTINGS.animationDuration;
+					await this.plugin.saveSettings(false);
+					this.display();
+				}));
+
 		new Setting(containerEl)
-			.setName(t('primaryNavigationStrategy'))
-			.setDesc(t('primaryNavigationStrategyDesc'))
+			.setName(t('animationEasing'))
+			.setDesc(t('animationEasingDesc'))
 			.addDropdown(dropdown => dropdown
 				.addOptions({
-					'PAN': t('pan'),
-					'ZOOM': t('zoom'),
-					'NONE': t('none')
+					'linear': t('easingLinear'),
+					'ease-in': t('easingIn'),
+					'ease-out': t('easingOut'),
+					'ease-in-out': t('easingInOut'),
 				})
-				.setValue(this.plugin.settings.primaryNavigationStrategy)
+				.setValue(this.plugin.settings.animationEasing)
 				.onChange(async (value) => {
-					this.plugin.settings.primaryNavigationStrategy = value as CanvasNavigationStrategy;
-					await this.plugin.saveSettings();
+					this.plugin.settings.animationEasing = value as CameraEasing;
+					await this.plugin.saveSettings(false);
 				}));
+		
+		// 各种点击方式使用的导航策略
+		const strategyOptions: Record<CanvasNavigationStrategy, string> = {
+			'PAN': t('pan'),
+			'ZOOM': t('zoom'),
+			'ZOOM_GROUP': t('zoomGroup'),
+			'KEEP_ZOOM': t('keepZoom'),
+			'SELECT': t('selectNode'),
+			'OPEN_FILE': t('openFile'),
+			'NONE': t('none')
+		}
+		const strategySettings = [
+			'primaryNavigationStrategy',
+			'secondaryNavigationStrategy',
+			'shiftClickNavigationStrategy',
+			'altClickNavigationStrategy',
+			'middleClickNavigationStrategy',
+			'doubleClickNavigationStrategy',
+		] as const
+		for (const key of strategySettings) {
+			new Setting(containerEl)
+				.setName(t(key))
+				.setDesc(t(`${key}Desc` as const))
+				.addDropdown(dropdown => dropdown
+					.addOptions(strategyOptions)
+					.setValue(this.plugin.settings[key])
+					.onChange(async (value) => {
+						this.plugin.settings[key] = value as CanvasNavigationStrategy;
+						await this.plugin.saveSettings();
+					}));
+		}
 
 		new Setting(containerEl)
-			.setName(t('secondaryNavigationStrategy'))
-			.setDesc(t('secondaryNavigationStrategyDesc'))
+			.setName(t('rendererBackend'))
+			.setDesc(t('rendererBackendDesc'))
 			.addDropdown(dropdown => dropdown
 				.addOptions({
-					'PAN': t('pan'),
-					'ZOOM': t('zoom'),
-					'NONE': t('none')
+					'auto': t('rendererAuto'),
+					'svg': 'SVG',
+					'canvas': 'Canvas'
 				})
-				.setValue(this.plugin.settings.secondaryNavigationStrategy)
+				.setValue(this.plugin.settings.rendererBackend)
 				.onChange(async (value) => {
-					this.plugin.settings.secondaryNavigationStrategy = value as CanvasNavigationStrategy;
+					this.plugin.settings.rendererBackend = value as CanvasMinimapSettings['rendererBackend'];
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName(t('canvasRendererThreshold'))
+			.setDesc(t('canvasRendererThresholdDesc'))
+			.addText(text => text
+				.setValue(this.plugin.settings.canvasRendererThreshold.toString())
+				.onChange(async (value) => {
+					if(value && !isNaN(Number(value))){
+						this.plugin.settings.canvasRendererThreshold = parseInt(value);
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName(t('renderInWorker'))
+			.setDesc(t('renderInWorkerDesc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.renderInWorker)
+				.onChange(async (value) => {
+					this.plugin.settings.renderInWorker = value;
+					// Worker 在创建渲染器时决定，需要重建小地图才能生效
+					await this.plugin.saveSettings(false);
+					this.plugin.reloadMinimaps();
+				}));
 	}
 }
\ No newline at end of file
@@ -0,0 +1,1826 @@
+import { Keymap, Menu, Notice, WorkspaceLeaf, debounce, setIcon } from 'obsidian';
+import * as d3 from "d3";
+import { t } from 'i18n';
+import en from 'i18n/en';
+import type CanvasMinimap from 'main';
+import type { CanvasMinimapSettings, CanvasNavigationStrategy, MinimapCanvasState, MinimapLayer, MinimapPalette, MinimapTheme } from 'main';
+import {
+	CanvasMinimapRenderer, MinimapEdgeItem, MinimapEmphasis, MinimapNodeKind, MinimapRectItem, MinimapRenderer,
+	MinimapRendererBackend, MinimapScene, MinimapViewBox, SvgMinimapRenderer, VIEWPOINT_BADGE_SIZE, viewBoxTransform
+} from 'renderer';
+import { Bounds, QuadTree } from 'spatial-index';
+import { BoundingBox, Vector2, clamp } from 'geometry';
+import { CANVAS_PRESET_COLORS, DEFAULT_NODE_COLOR, addOpacityToHexColor, blendColorWithOpacity, convertNodeColor, resolveCssColor, themePresetColors } from 'color';
+import { nodeFileOf, nodeGlyph, nodeKindOf } from 'node-glyphs';
+import { LabelCandidate, labelTextOf, layoutLabels } from 'labels';
+import { MinimapTooltip } from 'tooltip';
+import { MinimapSearch } from 'search';
+import { ViewpointNameModal } from 'viewpoint-modal';
+import { NavigationHistory } from 'history';
+import { CameraAnimation } from 'camera';
+import { MinimapColorFilter, MinimapLegend, colorKeyOf, legendEntriesOf } from 'legend';
+
+const MINIMAP_HEADER_HEIGHT = 20;
+// 设置了双击操作时，单击操作等待这么久（毫秒）确认不是双击
+const DOUBLE_CLICK_DELAY = 250;
+// 闪烁标记的最小尺寸（像素）
+const PULSE_MIN_SIZE = 8;
+// 视口停止变化多久后视为一次手动移动结束（毫秒）
+const MANUAL_MOVE_SETTLE_DELAY = 500;
+// 手动移动超过这些幅度时记入历史：中心位移（以视口尺寸计）与缩放倍数
+const MANUAL_MOVE_DISTANCE = 1;
+const MANUAL_MOVE_ZOOM = 2;
+// 连线控制点到端点的距离范围（画布坐标），与两端点距离的一半取中间值
+const EDGE_CURVE_MIN = 40;
+const EDGE_CURVE_MAX = 150;
+
+// 连线从节点的哪条边出发，控制点沿该方向延伸
+function sideDirectionOf(side: string): Vector2 {
+	switch (side) {
+		case 'left': return new Vector2(-1, 0);
+		case 'right': return new Vector2(1, 0);
+		case 'top': return new Vector2(0, -1);
+		default: return new Vector2(0, 1);
+	}
+}
+
+// 各类节点所在的图层，图片节点属于文件节点
+const NODE_LAYERS: Record<MinimapNodeKind, MinimapLayer> = {
+	group: 'groups',
+	text: 'textNodes',
+	file: 'fileNodes',
+	image: 'fileNodes',
+	link: 'linkNodes',
+};
+
+// 点击空白处时会平移画布的导航策略（只移动视图的策略）
+const CAMERA_STRATEGIES: CanvasNavigationStrategy[] = ['PAN', 'ZOOM', 'ZOOM_GROUP', 'KEEP_ZOOM'];
+
+/**
+ * 单个白板标签页的小地图。每个打开的白板（包括分屏）各有一个实例，
+ * 窗口挂在白板容器内，状态、渲染器、空间索引和监听器都属于该实例。
+ */
+export class Minimap {
+	plugin: CanvasMinimap;
+	leaf: WorkspaceLeaf;
+	canvas: any;
+
+	// 小地图对应的白板文件及其状态
+	private filePath: string | null = null;
+	canvasState: MinimapCanvasState;
+	// 滚轮缩放等连续操作只在停止后保存一次
+	private requestSaveCanvasState = debounce(() => this.plugin.saveSettings(false), 1000, true);
+	// 最近一次渲染实际使用的viewBox（已限制在画布范围内）
+	private viewBox: MinimapViewBox = { x: 0, y: 0, width: 0, height: 0 };
+	private canvasBounds: BoundingBox = new BoundingBox();
+	private el: d3.Selection<HTMLDivElement, unknown, null, undefined> | null = null;
+	// 渲染器挂载在 surface 上，鼠标事件也注册在 surface 上，切换渲染后端时无需重新绑定
+	private surface: HTMLElement | null = null;
+	private renderer: MinimapRenderer | null = null;
+	// 画布节点包围盒的空间索引，用于命中测试与视口裁剪
+	private nodeIndex: QuadTree<any> = new QuadTree();
+	private pendingUpdate = 0;
+	// 请求动画帧时所用的窗口，标签页移动到其他窗口后仍能正确取消
+	private pendingWin: Window | null = null;
+	// 注册到 document 和画布事件上的监听器，实例销毁时一并清理
+	private cleanup: (() => void)[] = [];
+	private tooltip: MinimapTooltip;
+	private search: MinimapSearch = new MinimapSearch();
+	// 当前白板的前进/后退历史，切换文件时清空
+	history: NavigationHistory = new NavigationHistory();
+	// 上一次视口停止变化时的位置，用于判断手动移动的幅度；为 null 时下次停止只记录位置
+	private settledViewport: Bounds | null = null;
+	private requestSettleViewport = debounce(() => this.settleViewport(), MANUAL_MOVE_SETTLE_DELAY, true);
+	// 导航时白板视口的过渡动画
+	private camera: CameraAnimation;
+	// 编辑模式：在小地图上拖动节点和分组，而不是平移小地图
+	editMode = false;
+	// 鼠标悬停的连线，连线及其两端节点高亮显示
+	private hoveredEdge: any | null = null;
+	private legend: MinimapLegend | null = null;
+	// 图例中选中的颜色筛选，以及按颜色跳转时的当前位置
+	colorFilter: MinimapColorFilter | null = null;
+	private colorStep = -1;
+
+	constructor(plugin: CanvasMinimap, leaf: WorkspaceLeaf, canvas: any) {
+		this.plugin = plugin;
+		this.leaf = leaf;
+		this.canvas = canvas;
+		this.tooltip = new MinimapTooltip(plugin.app, this.host);
+		this.camera = new CameraAnimation(canvas);
+		this.syncCanvasState();
+	}
+
+	get settings(): CanvasMinimapSettings {
+		return this.plugin.settings;
+	}
+
+	// 小地图窗口所在的容器：白板视图的内容区
+	get host(): HTMLElement {
+		return this.canvas.wrapperEl.parentElement;
+	}
+
+	// 白板可能位于弹出窗口中，监听器和动画帧都要使用白板自己的 document/window
+	get doc(): Document {
+		return this.canvas.wrapperEl.doc;
+	}
+
+	get win(): Window {
+		return this.canvas.wrapperEl.win;
+	}
+
+	mount() {
+		if (this.el)
+			return
+
+		const container = d3.select(this.host)
+		const toolbar = container.selectAll('.canvas-controls').filter(":not(#_minimap_toolbar_)")
+		toolbar.style('display', 'flex') // restore toolbar if it was hidden
+
+		// 小地图窗口放在白板所在的容器内，随白板（包括分屏中的白板）一起移动和隐藏
+		const host = this.host
+		const doc = this.doc
+		if (this.win.getComputedStyle(host).position === 'static')
+			host.style.position = 'relative'
+		const div = d3.select(host).append('div')
+			.attr('class', 'canvas-minimap')
+			.style('position', 'absolute')
+			.style('z-index', '40') // 降低层级，避免覆盖设置界面
+			.style('pointer-events', 'all') // 允许交互
+			.style('border-radius', '5px')
+			.style('overflow', 'hidden')
+		this.el = div
+		// 标签页被拖到其他窗口时，按新窗口的 document 重新挂载
+		this.cleanup.push((div.node() as HTMLElement).onWindowMigrated(() => this.reload()))
+
+		// 添加标题栏
+		let isDragging = false;
+		let offsetX = 0;
+		let offsetY = 0;
+
+		const header = div.insert('div', ':first-child')
+			.attr('class', 'minimap-header')
+			.style('position', 'absolute')
+			.style('top', '0')
+			.style('left', '0')
+			.style('right', '0')
+			.style('height', MINIMAP_HEADER_HEIGHT + 'px')
+			.style('cursor', 'move')
+			.style('display', 'flex')
+			.style('justify-content', 'space-between')
+			.style('align-items', 'center')
+			.style('padding', '0 4px')
+			.style('z-index', '41'); // 降低标题栏层级
+
+		header.append('span')
+			.attr('class', 'minimap-title')
+			.text('Canvas Minimap')
+			.style('font-size', '10px')
+			.style('font-weight', 'bold');
+
+		// 搜索框：输入时高亮匹配的节点，回车或上下键在结果间跳转
+		header.append('input')
+			.attr('class', 'minimap-search')
+			.attr('type', 'search')
+			.attr('placeholder', t('searchPlaceholder'))
+			.attr('spellcheck', 'false')
+			.on('mousedown', (e: MouseEvent) => e.stopPropagation())
+			.on('input', (e: InputEvent) => {
+				this.search.setQuery((e.target as HTMLInputElement).value);
+				this.update();
+			})
+			.on('keydown', (e: KeyboardEvent) => {
+				// 不让白板处理输入框中的按键（如删除节点）
+				e.stopPropagation();
+				if (e.key === 'Enter' || e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+					e.preventDefault();
+					this.stepSearch(e.key === 'ArrowUp' || (e.key === 'Enter' && e.shiftKey) ? -1 : 1);
+				} else if (e.key === 'Escape') {
+					(e.target as HTMLInputElement).value = '';
+					this.search.setQuery('');
+					this.update();
+				}
+			});
+
+		// 后退/前进按钮，不触发标题栏拖动
+		const backButton = header.append('div')
+			.attr('class', 'minimap-back clickable-icon')
+			.attr('aria-label', t('navigateBackDesc'))
+			.on('mousedown', (e: MouseEvent) => e.stopPropagation())
+			.on('click', () => this.goBack())
+		setIcon(backButton.node() as HTMLElement, 'arrow-left')
+		const forwardButton = header.append('div')
+			.attr('class', 'minimap-forward clickable-icon')
+			.attr('aria-label', t('navigateForwardDesc'))
+			.on('mousedown', (e: MouseEvent) => e.stopPropagation())
+			.on('click', () => this.goForward())
+		setIcon(forwardButton.node() as HTMLElement, 'arrow-right')
+		this.updateHistoryButtons();
+
+		// 编辑模式开关，不触发标题栏拖动
+		const editButton = header.append('div')
+			.attr('class', 'minimap-edit clickable-icon')
+			.attr('aria-label', t('editMode'))
+			.on('mousedown', (e: MouseEvent) => e.stopPropagation())
+			.on('click', () => this.setEditMode(!this.editMode))
+		setIcon(editButton.node() as HTMLElement, 'move')
+
+		// 图层菜单按钮，不触发标题栏拖动
+		const layersButton = header.append('div')
+			.attr('class', 'minimap-layers clickable-icon')
+			.attr('aria-label', t('layers'))
+			.on('mousedown', (e: MouseEvent) => e.stopPropagation())
+			.on('click', (e: MouseEvent) => this.showLayerMenu(e))
+		setIcon(layersButton.node() as HTMLElement, 'layers')
+
+		// 视点菜单按钮，不触发标题栏拖动
+		const viewpointButton = header.append('div')
+			.attr('class', 'minimap-viewpoints clickable-icon')
+			.attr('aria-label', t('viewpoints'))
+			.on('mousedown', (e: MouseEvent) => e.stopPropagation())
+			.on('click', (e: MouseEvent) => this.showViewpointMenu(e))
+		setIcon(viewpointButton.node() as HTMLElement, 'bookmark')
+
+		// 折叠按钮，不触发标题栏拖动
+		header.append('div')
+			.attr('class', 'minimap-collapse clickable-icon')
+			.on('mousedown', (e: MouseEvent) => e.stopPropagation())
+			.on('click', () => {
+				this.updateCanvasState({ collapsed: !this.canvasState.collapsed });
+				this.applyGeometry();
+				this.plugin.saveSettings(false);
+				this.update();
+			});
+
+		// 颜色等依赖设置的样式，设置变更时由 refresh 重新应用
+		this.applyStyles();
+
+		// 拖动功能：位置相对于白板容器
+		header.on('mousedown', (e: MouseEvent) => {
+			isDragging = true;
+			const rect = this.relativeRect();
+			offsetX = e.clientX - rect.left;
+			offsetY = e.clientY - rect.top;
+			div.style('transition', 'none'); // 拖动时禁用过渡效果
+		});
+
+		const handleHeaderMouseMove = (e: MouseEvent) => {
+			if (isDragging) {
+				div
+					.style('left', (e.clientX - offsetX) + 'px')
+					.style('top', (e.clientY - offsetY) + 'px')
+					.style('right', null)
+					.style('bottom', null);
+			}
+		};
+		const handleHeaderMouseUp = () => {
+			if (isDragging) {
+				isDragging = false;
+				div.style('transition', 'box-shadow 0.2s ease'); // 拖动结束后恢复过渡效果
+
+				// 保存当前位置
+				const rect = this.relativeRect();
+				this.updateCanvasState({ positionX: rect.left, positionY: rect.top });
+				this.plugin.saveSettings(false);
+			}
+		};
+		doc.addEventListener('mousemove', handleHeaderMouseMove);
+		doc.addEventListener('mouseup', handleHeaderMouseUp);
+		this.cleanup.push(() => {
+			doc.removeEventListener('mousemove', handleHeaderMouseMove);
+			doc.removeEventListener('mouseup', handleHeaderMouseUp);
+		});
+
+		// 画布变更时增量更新，视口变化时只重绘视口矩形；事件由所有白板共享，只处理自己的画布
+		const events = this.plugin.canvas_event
+		const refs = [
+			events.on('CANVAS_TICK', (canvas: any) => {
+				if (canvas === this.canvas)
+					this.renderViewport()
+			}),
+			events.on('CANVAS_DIRTY', (canvas: any, item: any) => this.onCanvasChanged(canvas, item)),
+			events.on('CANVAS_MOVED', (canvas: any, item: any) => this.onCanvasChanged(canvas, item)),
+			events.on('CANVAS_SELECTION_CHANGED', (canvas: any) => {
+				if (canvas === this.canvas)
+					this.scheduleUpdate()
+			}),
+			// 视口停止变化后检查是否发生了较大的手动移动
+			events.on('CANVAS_VIEWPORT_CHANGED', (canvas: any) => {
+				if (canvas === this.canvas && this.settings.recordManualMoves)
+					this.requestSettleViewport()
+			}),
+		]
+		this.cleanup.push(() => refs.forEach(ref => events.offref(ref)));
+
+		// 渲染器（SVG 或 Canvas）挂载在 surface 上，由 render 按节点数量选择
+		const surface = div.append('div')
+			.attr('class', 'minimap-surface')
+			.style('position', 'absolute')
+			.style('inset', '0')
+		this.surface = surface.node()
+
+			// 添加缩放和平移功能的变量
+		let isSvgDragging = false;
+		let isRightDragging = false; // 专门用于右键拖动
+		let isViewportDragging = false; // 拖动视口矩形，实时平移画布
+		let isMarqueeSelecting = false; // Shift + 拖动：框选白板节点
+		let isNodeDragging = false; // 编辑模式下拖动节点
+		let hasDragged = false; // 本次按下后是否发生过拖动，用于屏蔽随后的 click
+		let lastX = 0;
+		let lastY = 0;
+		// 拖动视口时的起点（小地图坐标）与画布起始中心
+		let viewportDragOrigin = new Vector2(0, 0);
+		let viewportDragCenter = new Vector2(0, 0);
+		// 框选的起点（小地图坐标与屏幕坐标）和选框元素
+		let marqueeOrigin = new Vector2(0, 0);
+		let marqueeStartX = 0;
+		let marqueeStartY = 0;
+		let marquee: HTMLElement | null = null;
+		// 编辑模式下拖动的节点（包括分组内的节点）及其起始位置
+		let nodeDragOrigin = new Vector2(0, 0);
+		let draggedNodes: { node: any, x: number, y: number }[] = [];
+
+		const pointerOf = (e: MouseEvent) => {
+			const [px, py] = this.renderer ? this.renderer.pointer(e) : [0, 0];
+			return new Vector2(px, py);
+		}
+		const isOnViewport = (canvas: any, p: Vector2) => {
+			if (!canvas || !this.settings.drawActiveViewport) return false;
+			const bbox = canvas.getViewportBBox();
+			return new BoundingBox(bbox.minX, bbox.minY, bbox.maxX, bbox.maxY).contains(p);
+		}
+		
+			// 添加鼠标事件处理
+		surface.on('mousedown', (e: MouseEvent) => {
+			hasDragged = false;
+			this.tooltip.hide();
+			// 在小地图上的任何操作都会停止正在进行的过渡动画
+			this.camera.cancel();
+			if (e.button === 0) { // 左键
+				const active_canvas = this.canvas
+				const p = pointerOf(e);
+				if (e.shiftKey) {
+					// 按住 Shift 拖动：框选；没有拖动时仍按 Shift + 点击处理
+					marqueeOrigin = p;
+					marqueeStartX = e.clientX;
+					marqueeStartY = e.clientY;
+					isMarqueeSelecting = true;
+					surface.style('cursor', 'crosshair');
+					e.preventDefault();
+					return;
+				}
+				const target = this.editMode ? this.nodeAt(p) : null;
+				if (target) {
+					// 编辑模式：按下节点时开始拖动它（以及一起移动的节点）
+					nodeDragOrigin = p;
+					draggedNodes = this.nodesToDrag(target).map(node => ({ node, x: node.x, y: node.y }));
+					isNodeDragging = true;
+					surface.style('cursor', 'move');
+					e.preventDefault();
+					return;
+				}
+				if (isOnViewport(active_canvas, p)) {
+					// 按住视口矩形：拖动画布而不是小地图
+					const bbox = active_canvas.getViewportBBox();
+					viewportDragOrigin = p;
+					viewportDragCenter = new Vector2((bbox.minX + bbox.maxX) / 2, (bbox.minY + bbox.maxY) / 2);
+					isViewportDragging = true;
+					surface.style('cursor', 'grabbing');
+					e.preventDefault();
+					return;
+				}
+				isSvgDragging = true;
+				lastX = e.clientX;
+				lastY = e.clientY;
+				surface.style('cursor', 'grabbing');
+			} else if (e.button === 1) { // 中键
+				e.preventDefault(); // 阻止自动滚动
+			} else if (e.button === 2) { // 右键
+				e.preventDefault(); // 阻止右键菜单
+				isRightDragging = true;
+				lastX = e.clientX;
+				lastY = e.clientY;
+				surface.style('cursor', 'grabbing');
+			}
+		});
+
+		// 悬停在视口矩形上时提示可以拖动
+		// 悬停提示：命中测试与点击相同，见 targetAt
+		surface.on('mousemove', (e: MouseEvent) => {
+			if (isViewportDragging || isSvgDragging || isRightDragging || isMarqueeSelecting || isNodeDragging) return;
+			const p = pointerOf(e);
+			const viewpoint = this.viewpointAt(p);
+			const { node, edge } = viewpoint >= 0 ? { node: null, edge: null } : this.targetAt(p, e);
+			this.setHoveredEdge(edge);
+			surface.style('cursor', viewpoint >= 0 || edge ? 'pointer'
+				: this.editMode && node ? 'move'
+				: isOnViewport(this.canvas, p) ? 'grab' : '');
+			if (!this.settings.showTooltips) return;
+			if (viewpoint >= 0)
+				this.tooltip.show({ type: 'viewpoint', viewpoint: this.canvasState.viewpoints[viewpoint], index: viewpoint }, e.clientX, e.clientY);
+			else if (edge)
+				this.tooltip.show({ type: 'edge', edge }, e.clientX, e.clientY);
+			else if (node)
+				this.tooltip.show({ type: 'node', node }, e.clientX, e.clientY);
+			else
+				this.tooltip.hide();
+		});
+		surface.on('mouseleave', () => {
+			this.tooltip.hide();
+			this.setHoveredEdge(null);
+		});
+		
+		// 添加全局鼠标移动事件
+		const handleSvgMouseMove = (e: MouseEvent) => {
+			if (isMarqueeSelecting) {
+				if (!hasDragged && e.clientX === marqueeStartX && e.clientY === marqueeStartY) return;
+				hasDragged = true;
+				const surfaceRect = (surface.node() as HTMLElement).getBoundingClientRect();
+				marquee ??= (surface.node() as HTMLElement).createDiv({ cls: 'minimap-marquee' });
+				marquee.style.left = (Math.min(e.clientX, marqueeStartX) - surfaceRect.left) + 'px';
+				marquee.style.top = (Math.min(e.clientY, marqueeStartY) - surfaceRect.top) + 'px';
+				marquee.style.width = Math.abs(e.clientX - marqueeStartX) + 'px';
+				marquee.style.height = Math.abs(e.clientY - marqueeStartY) + 'px';
+				return;
+			}
+			if (isNodeDragging) {
+				// viewBox 在拖动期间不变，小地图坐标的位移就是画布坐标的位移
+				const delta = Vector2.sub(pointerOf(e), nodeDragOrigin);
+				if (delta.x === 0 && delta.y === 0) return;
+				hasDragged = true;
+				for (const { node, x, y } of draggedNodes)
+					node.moveTo({ x: x + delta.x, y: y + delta.y });
+				return;
+			}
+			if (isViewportDragging) {
+				const active_canvas = this.canvas;
+				if (!active_canvas) return;
+				// viewBox 在拖动期间不变，直接用小地图坐标的位移作为画布位移
+				const delta = Vector2.sub(pointerOf(e), viewportDragOrigin);
+				const center = Vector2.add(viewportDragCenter, delta);
+				// 整个拖动只记录一次拖动前的视口
+				if (!hasDragged)
+					this.recordJump();
+				active_canvas.panTo(center.x, center.y);
+				hasDragged = true;
+				return;
+			}
+			if (isSvgDragging || isRightDragging) {
+				const deltaX = e.clientX - lastX;
+				const deltaY = e.clientY - lastY;
+				if (deltaX !== 0 || deltaY !== 0) hasDragged = true;
+				
+				// 获取当前viewBox
+				const { x, y, width, height } = this.viewBox;
+				
+				// 计算平移量（根据缩放级别调整）
+				const scaleX = this.canvasState.width / width;
+				const scaleY = this.canvasState.height / height;
+				const actualDeltaX = -deltaX / scaleX;
+				const actualDeltaY = -deltaY / scaleY;
+				
+				// 更新viewBox以实现平移
+				const newX = x + actualDeltaX;
+				const newY = y + actualDeltaY;
+				
+				// 更新保存的viewBox状态，下一帧重新渲染
+				this.viewBox = {
+					x: newX,
+					y: newY,
+					width: width,
+					height: height
+				};
+				this.updateCanvasState({ viewBox: this.viewBox });
+				this.scheduleUpdate();
+				
+				// 更新上次鼠标位置
+				lastX = e.clientX;
+				lastY = e.clientY;
+			}
+		};
+		
+		const handleSvgMouseUp = (e: MouseEvent) => {
+			if (isNodeDragging) {
+				isNodeDragging = false;
+				surface.style('cursor', null);
+				if (hasDragged) {
+					// 整次拖动作为一步写入白板的撤销历史并保存
+					this.canvas.pushHistory(this.canvas.getData());
+					this.canvas.requestSave();
+				}
+				draggedNodes = [];
+				return;
+			}
+			if (isMarqueeSelecting) {
+				isMarqueeSelecting = false;
+				surface.style('cursor', null);
+				marquee?.remove();
+				marquee = null;
+				if (hasDragged) {
+					const p = pointerOf(e);
+					const bounds = new BoundingBox(
+						Math.min(p.x, marqueeOrigin.x), Math.min(p.y, marqueeOrigin.y),
+						Math.max(p.x, marqueeOrigin.x), Math.max(p.y, marqueeOrigin.y));
+					// 同时按住 Ctrl 时加入现有的选中项
+					this.selectNodesIn(bounds, Keymap.isModifier(e, 'Mod'));
+				}
+				return;
+			}
+			if (isRightDragging && !hasDragged) {
+				// 右键单击（没有拖动）：打开节点的右键菜单。在抬起时打开，各平台的行为一致
+				const node = this.nodeAt(pointerOf(e));
+				if (node)
+					this.showNodeMenu(e, node);
+			} else if (isSvgDragging || isRightDragging) {
+				// 平移结束后保存当前白板的viewBox
+				this.plugin.saveSettings(false);
+			}
+			if (isViewportDragging || isSvgDragging || isRightDragging) {
+				isViewportDragging = false;
+				isSvgDragging = false;
+				isRightDragging = false;
+				surface.style('cursor', null);
+			}
+		};
+		const handleContextMenu = (e: MouseEvent) => {
+			// 小地图的右键菜单由 mouseup 打开，屏蔽浏览器默认菜单
+			if (isRightDragging || (e.target instanceof Node && this.surface?.contains(e.target))) {
+				e.preventDefault();
+				return false;
+			}
+		};
+
+
+		// 添加事件监听器到文档上，以确保即使鼠标移出小地图区域也能正常工作
+		doc.addEventListener('mousemove', handleSvgMouseMove);
+		doc.addEventListener('mouseup', handleSvgMouseUp);
+		doc.addEventListener('contextmenu', handleContextMenu);
+
+		// 在小地图移除时清理事件监听器
+		this.cleanup.push(() => {
+			doc.removeEventListener('mousemove', handleSvgMouseMove);
+			doc.removeEventListener('mouseup', handleSvgMouseUp);
+			doc.removeEventListener('contextmenu', handleContextMenu);
+		});
+
+		// 按导航策略处理小地图上某一点的点击
+		const navigateAt = (p: Vector2, navigation_strategy: CanvasNavigationStrategy) => {
+			const active_canvas = this.canvas
+			if (!active_canvas || navigation_strategy === 'NONE') return
+
+			// 直接用节点数据做命中测试，不依赖渲染后端的 DOM
+			const target_node = this.nodeAt(p)
+
+			if (target_node) {
+				// focus to nearest node
+				this.navigateTo(target_node, navigation_strategy)
+			} else if (this.settings.panOnEmptyClick && CAMERA_STRATEGIES.includes(navigation_strategy)
+				&& this.canvasBounds.contains(p)) {
+				// 点击空白处：将画布中心移动到该点
+				this.recordJump()
+				this.panCameraTo(p.x, p.y)
+			}
+		}
+
+		// 设置了双击操作时，单击操作延迟执行，在此期间发生双击则取消
+		let pendingClick = 0
+		const cancelPendingClick = () => {
+			this.win.clearTimeout(pendingClick)
+			pendingClick = 0
+		}
+		this.cleanup.push(cancelPendingClick)
+
+		surface.on('click', (e: any) => {
+			if (hasDragged) {
+				// 刚结束一次拖动（小地图平移或视口拖动），不执行点击操作
+				hasDragged = false;
+				return;
+			}
+			// 双击中的第二次单击由 dblclick 处理
+			if (e.detail > 1)
+				return
+
+			const p = pointerOf(e)
+
+			// 视点标记位于节点之上，优先响应
+			const viewpoint = this.viewpointAt(p)
+			if (viewpoint >= 0) {
+				this.goToViewpoint(viewpoint)
+				return
+			}
+
+			// 点击连线：跳到离点击位置较远的一端，按住 Ctrl 时同时显示两端
+			const { edge } = this.targetAt(p, e)
+			if (edge) {
+				if (Keymap.isModifier(e, 'Mod'))
+					this.fitEdge(edge)
+				else
+					this.followEdge(edge, p)
+				return
+			}
+
+			const strategy = this.clickStrategyOf(e)
+			if (this.settings.doubleClickNavigationStrategy === 'NONE') {
+				navigateAt(p, strategy)
+				return
+			}
+			cancelPendingClick()
+			pendingClick = this.win.setTimeout(() => {
+				pendingClick = 0
+				navigateAt(p, strategy)
+			}, DOUBLE_CLICK_DELAY)
+		})
+		// 中键点击
+		surface.on('auxclick', (e: MouseEvent) => {
+			if (e.button !== 1) return
+			e.preventDefault()
+			navigateAt(pointerOf(e), this.settings.middleClickNavigationStrategy)
+		})
+		// 双击：取代单击操作，不会先执行单击
+		surface.on('dblclick', (e: MouseEvent) => {
+			cancelPendingClick()
+			if (this.viewpointAt(pointerOf(e)) >= 0) return
+			navigateAt(pointerOf(e), this.settings.doubleClickNavigationStrategy)
+		})
+		// 添加鼠标滚轮事件，用于缩放小地图内部视图
+		surface.on('wheel', (e: WheelEvent) => {
+			if (e.ctrlKey) {
+				// 阻止默认滚动行为
+				e.preventDefault();
+				
+				const baseViewWidth = this.canvasBounds.width();
+				const baseViewHeight = this.canvasBounds.height();
+				
+				// 获取当前viewBox
+				const { x: currentX, y: currentY, width: currentWidth, height: currentHeight } = this.viewBox;
+				
+				// 获取鼠标在小地图坐标系中的位置
+				const { x: mouseX, y: mouseY } = pointerOf(e);
+				
+				// 计算缩放因子
+				const zoomFactor = e.deltaY < 0 ? 0.9 : 1.1; // 向上滚动放大，向下滚动缩小
+				
+				// 计算新的宽高
+				const newWidth = Math.max(50, Math.min(baseViewWidth, currentWidth * zoomFactor)); // 限制最小范围
+				const newHeight = Math.max(50, Math.min(baseViewHeight, currentHeight * zoomFactor));
+				
+				// 计算缩放后的新坐标，以保持鼠标位置下的内容不变
+				const newCenterX = currentX + (mouseX - currentX) * (1 - newWidth/currentWidth);
+				const newCenterY = currentY + (mouseY - currentY) * (1 - newHeight/currentHeight);
+				
+				// 保存当前viewBox状态
+				this.updateCanvasState({
+					viewBox: {
+						x: newCenterX,
+						y: newCenterY,
+						width: newWidth,
+						height: newHeight
+					}
+				});
+				this.requestSaveCanvasState();
+				this.update()
+			}
+		})
+
+		// 创建四个边缘和角落的调整大小区域
+		const createResizeArea = (position: string) => {
+			const resizeArea = div.append('div')
+				.attr('class', `minimap-resize-area minimap-resize-${position}`)
+				.style('position', 'absolute')
+				.style('background-color', 'transparent') // 完全透明
+				.style('z-index', '42')
+				.style('cursor', position.includes('right') ? 'e-resize' : 'w-resize')
+				.style('pointer-events', 'auto'); // 确保可以接收鼠标事件
+			
+			// 设置不同位置的尺寸和光标
+			if (position === 'top') {
+				resizeArea
+					.style('top', '0')
+					.style('left', '4px') // 避开角落区域
+					.style('width', `calc(100% - 4px)`) // 避开左右角落
+					.style('height', '4px')
+					.style('cursor', 'n-resize');
+			} else if (position === 'bottom') {
+				resizeArea
+					.style('bottom', '0')
+					.style('left', '4px')
+					.style('width', `calc(100% - 4px)`)
+					.style('height', '4px')
+					.style('cursor', 's-resize');
+			} else if (position === 'left') {
+				resizeArea
+					.style('top', '4px') // 避开角落区域
+					.style('left', '0')
+					.style('width', '4px')
+					.style('height', `calc(100% - 4px)`) // 避开上下角落
+					.style('cursor', 'w-resize');
+			} else if (position === 'right') {
+				resizeArea
+					.style('top', '4px')
+					.style('right', '0')
+					.style('width', '4px')
+					.style('height', `calc(100% - 4px)`)
+					.style('cursor', 'e-resize');
+			} else if (position === 'top-left') {
+				resizeArea
+					.style('top', '0')
+					.style('left', '0')
+					.style('width', '4px')
+					.style('height', '4px')
+					.style('cursor', 'nw-resize');
+			} else if (position === 'top-right') {
+				resizeArea
+					.style('top', '0')
+					.style('right', '0')
+					.style('width', '4px')
+					.style('height', '4px')
+					.style('cursor', 'ne-resize');
+			} else if (position === 'bottom-left') {
+				resizeArea
+					.style('bottom', '0')
+					.style('left', '0')
+					.style('width', '4px')
+					.style('height', '4px')
+					.style('cursor', 'sw-resize');
+			} else if (position === 'bottom-right') {
+				resizeArea
+					.style('bottom', '0')
+					.style('right', '0')
+					.style('width', '4px')
+					.style('height', '4px')
+					.style('cursor', 'se-resize');
+			}
+			
+			return resizeArea;
+		};
+		
+		// 创建八个调整大小区域（四边+四角）
+		const resizeAreas: {[key: string]: any} = {};
+		const positions = ['top', 'right', 'bottom', 'left', 'top-left', 'top-right', 'bottom-left', 'bottom-right'];
+		
+		for (const pos of positions) {
+			resizeAreas[pos] = createResizeArea(pos);
+		}
+		
+		// 调整大小功能
+		const startResize = (e: MouseEvent, horizontal: 'left' | 'right' | 'both', vertical: 'top' | 'bottom' | 'both') => {
+			e.preventDefault();
+			e.stopPropagation();
+			
+			const startX = e.clientX;
+			const startY = e.clientY;
+			const startRect = this.relativeRect();
+			const startWidth = startRect.width;
+			const startHeight = startRect.height;
+			const startLeft = startRect.left;
+			const startTop = startRect.top;
+			
+			// 只在鼠标抬起时执行最终操作，不使用中间防抖
+			let isResizing = true; // 添加标志表示是否正在调整大小
+			
+			const handleMouseMove = (e: MouseEvent) => {
+				if (!isResizing) return; // 如果不在调整大小状态，直接返回
+				
+				const deltaX = e.clientX - startX;
+				const deltaY = e.clientY - startY;
+				
+				let newWidth = startWidth;
+				let newHeight = startHeight;
+				let newLeft = startLeft;
+				let newTop = startTop;
+				
+				if (horizontal === 'right' || horizontal === 'both') {
+					newWidth = Math.max(200, startWidth + deltaX); // 最小宽度200px
+				} else if (horizontal === 'left') {
+					const potentialNewWidth = startWidth - deltaX;
+					if (potentialNewWidth >= 200) { // 最小宽度200px
+						newWidth = potentialNewWidth;
+						newLeft = startLeft + deltaX;
+					}
+				}
+				
+				if (vertical === 'bottom' || vertical === 'both') {
+					newHeight = Math.max(150, startHeight + deltaY); // 最小高度150px
+				} else if (vertical === 'top') {
+					const potentialNewHeight = startHeight - deltaY;
+					if (potentialNewHeight >= 150) { // 最小高度150px
+						newHeight = potentialNewHeight;
+						newTop = startTop + deltaY;
+					}
+				}
+				
+				// 更新样式
+				div.style('width', newWidth + 'px')
+					.style('height', newHeight + 'px')
+					.style('left', newLeft + 'px')
+					.style('top', newTop + 'px');
+				
+				// 更新设置中的尺寸（实时更新，但不触发重新渲染）
+				this.updateCanvasState({
+					width: newWidth,
+					height: newHeight,
+					positionX: newLeft,
+					positionY: newTop
+				});
+			};
+			
+			const handleMouseUp = () => {
+				if (!isResizing) return; // 如果已经结束，直接返回
+				isResizing = false; // 设置标志为false，表示不再调整大小
+				
+				// 立即保存最终设置并重新渲染
+				this.plugin.saveSettings(false);
+				// 增量更新小地图以适应新的尺寸（标签字号随之变化）
+				this.update();
+				
+				doc.removeEventListener('mousemove', handleMouseMove);
+				doc.removeEventListener('mouseup', handleMouseUp);
+			};
+			
+			doc.addEventListener('mousemove', handleMouseMove);
+			doc.addEventListener('mouseup', handleMouseUp);
+		};
+		
+		// 为各个调整区域添加事件监听器
+		resizeAreas['right'].on('mousedown', (e: MouseEvent) => startResize(e, 'right', 'both'));
+		resizeAreas['left'].on('mousedown', (e: MouseEvent) => startResize(e, 'left', 'both'));
+		resizeAreas['bottom'].on('mousedown', (e: MouseEvent) => startResize(e, 'both', 'bottom'));
+		resizeAreas['top'].on('mousedown', (e: MouseEvent) => startResize(e, 'both', 'top'));
+		resizeAreas['top-left'].on('mousedown', (e: MouseEvent) => startResize(e, 'left', 'top'));
+		resizeAreas['top-right'].on('mousedown', (e: MouseEvent) => startResize(e, 'right', 'top'));
+		resizeAreas['bottom-left'].on('mousedown', (e: MouseEvent) => startResize(e, 'left', 'bottom'));
+		resizeAreas['bottom-right'].on('mousedown', (e: MouseEvent) => startResize(e, 'right', 'bottom'));
+		// 不再需要在container上注册点击事件，因为svg已经能接收点击事件了
+
+		// 颜色图例，内容由 render 更新
+		this.legend = new MinimapLegend(div.node() as HTMLElement,
+			() => {
+				this.settings.legendCollapsed = !this.settings.legendCollapsed;
+				this.plugin.saveSettings(false);
+				this.update();
+			},
+			filter => this.setColorFilter(filter));
+
+		// 按当前白板保存的状态放置窗口（位置、大小、折叠）
+		this.applyGeometry();
+		this.render()
+		this.renderViewport()
+		this.resetSettledViewport()
+	}
+
+	destroy() {
+		this.camera.cancel()
+		this.tooltip.hide()
+		this.legend?.destroy()
+		this.legend = null
+		this.el?.remove()
+		this.el = null
+
+		// remove canvas and document event listeners
+		this.cleanup.forEach(cleanup => cleanup())
+		this.cleanup = []
+		if (this.pendingUpdate) {
+			this.pendingWin?.cancelAnimationFrame(this.pendingUpdate)
+			this.pendingUpdate = 0
+			this.pendingWin = null
+		}
+		this.renderer?.destroy()
+		this.renderer = null
+		this.surface = null
+		this.nodeIndex.clear()
+	}
+
+	private onCanvasChanged(canvas: any, item: any) {
+		if (canvas !== this.canvas)
+			return
+		// 节点移动时立即更新空间索引，保证下一帧渲染之前的命中测试也是准确的
+		if (item?.bbox && this.nodeIndex.has(item.id))
+			this.nodeIndex.insert(item.id, item.bbox, item)
+		this.scheduleUpdate()
+	}
+
+	// 窗口相对于白板容器的位置和大小
+	private relativeRect() {
+		const rect = (this.el?.node() as HTMLElement).getBoundingClientRect()
+		const hostRect = this.host.getBoundingClientRect()
+		return { left: rect.left - hostRect.left, top: rect.top - hostRect.top, width: rect.width, height: rect.height }
+	}
+
+	// 合并同一帧内的多次画布变更，只做一次增量更新
+	scheduleUpdate() {
+		if (this.pendingUpdate)
+			return
+		this.pendingWin = this.win
+		this.pendingUpdate = this.pendingWin.requestAnimationFrame(() => {
+			this.pendingUpdate = 0
+			this.pendingWin = null
+			this.update()
+		})
+	}
+
+	// 增量更新：保留浮动窗口及其监听器，只修补变化的节点和连线
+	update() {
+		if (!this.el)
+			return
+		if (this.syncCanvasState()) {
+			this.applyGeometry()
+			// 历史记录属于之前打开的白板文件
+			this.history.clear()
+			this.resetSettledViewport()
+			this.updateHistoryButtons()
+			this.colorFilter = null
+			this.colorStep = -1
+		}
+		this.render()
+		this.renderViewport()
+	}
+
+	// 设置变更后刷新：窗口样式立即生效，内容按新设置更新
+	refresh() {
+		if (!this.el) {
+			this.mount()
+			return
+		}
+		this.applyStyles()
+		this.applyGeometry()
+		this.update()
+	}
+
+	reload() {
+		this.destroy()
+		this.mount()
+	}
+
+	reset() {
+		this.updateCanvasState({ viewBox: null }); // 重置当前viewBox以强制重新计算位置
+		this.plugin.saveSettings(false)
+		this.reload()
+	}
+
+	// 白板文件与记录的不同（打开了其他文件或被重命名）时载入它的状态，返回是否发生了切换
+	syncCanvasState(): boolean {
+		const path: string | null = this.canvas?.view?.file?.path ?? null
+		if (this.canvasState && path === this.filePath)
+			return false
+		this.filePath = path
+		this.canvasState = this.plugin.canvasStateFor(path)
+		return true
+	}
+
+	// 修改该白板的小地图状态（由调用方负责保存）；窗口位置和大小同时作为其他白板的默认值
+	updateCanvasState(patch: Partial<MinimapCanvasState>) {
+		Object.assign(this.canvasState, patch)
+		const { positionX, positionY, width, height } = this.canvasState
+		Object.assign(this.settings, { positionX, positionY, width, height })
+		if (this.filePath)
+			this.settings.canvasStates[this.filePath] = this.canvasState
+	}
+
+	// Obsidian 当前使用的主题
+	get theme(): MinimapTheme {
+		return this.doc.body.hasClass('theme-dark') ? 'dark' : 'light'
+	}
+
+	// 当前主题的配色，CSS 变量解析为具体颜色（Canvas 后端与混色计算都需要具体的色值）
+	resolvePalette(): MinimapPalette {
+		const palette = this.settings.palettes[this.theme]
+		const resolved = { ...palette }
+		for (const key of Object.keys(palette) as (keyof MinimapPalette)[])
+			resolved[key] = resolveCssColor(palette[key], this.host)
+		return resolved
+	}
+
+	applyStyles() {
+		const div = this.el
+		if (!div)
+			return
+		const palette = this.resolvePalette()
+		div
+			.style('background-color', palette.backgroundColor) // 设置背景色
+			.style('opacity', this.settings.minimapOpacity) // 使用设置的透明度
+		div.select('.minimap-header')
+			.style('background-color', palette.titleBarColor)
+		div.select('.minimap-title')
+			.style('color', palette.titleTextColor)
+	}
+
+	// 按该白板的状态放置小地图窗口，没有保存位置时使用预设位置
+	applyGeometry() {
+		const div = this.el
+		if (!div)
+			return
+		const state = this.canvasState
+		div.style('left', null).style('top', null).style('right', null).style('bottom', null)
+		if (state.positionX !== 0 || state.positionY !== 0) {
+			// 使用保存的位置，容器缩小（如分屏）时限制在容器内
+			const hostRect = this.host.getBoundingClientRect()
+			const height = state.collapsed ? MINIMAP_HEADER_HEIGHT : state.height
+			let left = state.positionX
+			let top = state.positionY
+			if (hostRect.width > 0 && hostRect.height > 0) {
+				left = Math.max(0, Math.min(left, hostRect.width - state.width))
+				top = Math.max(0, Math.min(top, hostRect.height - height))
+			}
+			div.style('left', left + 'px')
+				.style('top', top + 'px')
+		} else {
+			// 使用预设位置
+			switch(this.settings.side) {
+				case 'top-right':
+					div.style('top', '20px').style('right', '20px')
+					break
+				case 'top-left':
+					div.style('top', '20px').style('left', '20px')
+					break
+				case 'bottom-left':
+					div.style('bottom', '20px').style('left', '20px')
+					break
+				case 'bottom-right':
+					div.style('bottom', '20px').style('right', '20px')
+					break
+			}
+		}
+
+		// 折叠时只保留标题栏
+		div.style('width', state.width + 'px')
+			.style('height', (state.collapsed ? MINIMAP_HEADER_HEIGHT : state.height) + 'px')
+			.classed('is-collapsed', state.collapsed)
+		div.selectAll('.minimap-surface, .minimap-resize-area, .minimap-legend')
+			.style('display', state.collapsed ? 'none' : '')
+		const button = div.select<HTMLElement>('.minimap-collapse').node()
+		if (button) {
+			button.empty()
+			setIcon(button, state.collapsed ? 'chevron-down' : 'chevron-up')
+			button.setAttribute('aria-label', state.collapsed ? t('expand') : t('collapse'))
+		}
+	}
+
+	// 将小地图移动到预设位置（相对于白板容器）
+	moveToPresetPosition() {
+		const div = this.el
+		if (!div) return;
+
+		let newX, newY;
+		const rect = this.host.getBoundingClientRect();
+		const { width, height } = this.canvasState;
+		switch (this.settings.side) {
+			case 'top-right':
+				newX = rect.width - width - 20;
+				newY = 20;
+				break;
+			case 'top-left':
+				newX = 20;
+				newY = 20;
+				break;
+			case 'bottom-left':
+				newX = 20;
+				newY = rect.height - height - 20;
+				break;
+			case 'bottom-right':
+				newX = rect.width - width - 20;
+				newY = rect.height - height - 20;
+				break;
+		}
+
+		// 更新位置
+		div.style('left', newX + 'px')
+			.style('top', newY + 'px')
+			.style('right', null)
+			.style('bottom', null);
+
+		// 更新该白板的小地图位置
+		this.updateCanvasState({ positionX: newX, positionY: newY });
+
+		// 保存设置
+		this.plugin.saveSettings(false);
+	}
+
+	render() {
+		const canvas = this.canvas
+		const nodes: Map<string, any> = canvas.nodes
+		const edges: Map<string, any> = canvas.edges
+
+		const sidePositionOf = (node: any, side: string) => {
+			const origin = new Vector2(node.x, node.y);
+			const radius = new Vector2(node.width / 2, node.height / 2);
+			const center = Vector2.add(origin, radius);
+
+			if (side == "left") {
+				return Vector2.sub(center, new Vector2(radius.x, 0));
+			} else if (side == "right") {
+				return Vector2.add(center, new Vector2(radius.x, 0));
+			} else if (side == "top") {
+				return Vector2.sub(center, new Vector2(0, radius.y));
+			} else if (side == "bottom") {
+				return Vector2.add(center, new Vector2(0, radius.y));
+			}
+			throw new Error(`invalid side ${side}`);
+		};
+
+
+		const bbox: BoundingBox = new BoundingBox();
+		const groups: Map<string, any> = new Map()
+		const children: Map<string, any> = new Map()
+		nodes.forEach((node: any) => {
+			bbox.minX = Math.min(bbox.minX, node.x);
+			bbox.minY = Math.min(bbox.minY, node.y);
+			bbox.maxX = Math.max(bbox.maxX, node.x + node.width);
+			bbox.maxY = Math.max(bbox.maxY, node.y + node.height);
+			if (node.unknownData?.type === 'group') {
+				groups.set(node.id, node)
+			} else {
+				children.set(node.id, node)
+			}
+		});
+
+		// save the canvas bounds
+		this.canvasBounds = new BoundingBox(
+			bbox.minX - this.settings.margin, 
+			bbox.minY - this.settings.margin, 
+			bbox.maxX + this.settings.margin,
+			bbox.maxY + this.settings.margin)
+		
+		// 应用viewBox，优先使用当前白板保存的视图框状态
+		const savedViewBox = this.canvasState.viewBox
+		if (savedViewBox) {
+			// 确保保存的viewBox值在画布范围内
+			const clampedX = Math.max(this.canvasBounds.minX, Math.min(savedViewBox.x, this.canvasBounds.maxX - savedViewBox.width));
+			const clampedY = Math.max(this.canvasBounds.minY, Math.min(savedViewBox.y, this.canvasBounds.maxY - savedViewBox.height));
+			const clampedWidth = Math.min(savedViewBox.width, this.canvasBounds.width());
+			const clampedHeight = Math.min(savedViewBox.height, this.canvasBounds.height());
+			
+			this.viewBox = { x: clampedX, y: clampedY, width: clampedWidth, height: clampedHeight };
+		} else {
+			// 使用默认的viewBox
+			this.viewBox = { x: this.canvasBounds.minX, y: this.canvasBounds.minY, width: this.canvasBounds.width(), height: this.canvasBounds.height() };
+		}
+
+		// 搜索框有内容时重新匹配，画布内容可能已经变化
+		if (this.search.isActive)
+			this.search.refresh(nodes.values())
+
+		// 小地图被放大时，只绘制与当前viewBox相交的节点和连线
+		this.syncNodeIndex()
+		const viewBounds = new BoundingBox(this.viewBox.x, this.viewBox.y, this.viewBox.x + this.viewBox.width, this.viewBox.y + this.viewBox.height)
+		const culling = this.viewBox.width < this.canvasBounds.width() || this.viewBox.height < this.canvasBounds.height()
+		const visible = culling ? new Set(this.nodeIndex.search(viewBounds).map((n: any) => n.id)) : null
+		const isVisible = (n: any) => (!visible || visible.has(n.id)) && this.isLayerShown(n)
+
+		// 悬停连线的两端节点高亮，其余按搜索结果强调
+		const hoveredEnds = this.hoveredEdge ? [this.hoveredEdge.from.node.id, this.hoveredEdge.to.node.id] : []
+		// 悬停连线与搜索优先，其次按图例的颜色筛选淡化节点
+		const filter = this.colorFilter
+		const emphasisOf = (n: any): MinimapEmphasis => {
+			if (hoveredEnds.includes(n.id))
+				return 'match'
+			const emphasis = this.search.emphasisOf(n.id)
+			if (emphasis !== 'none' || !filter)
+				return emphasis
+			const sameColor = colorKeyOf(n) === filter.color
+			return (filter.mode === 'isolate' ? !sameColor : sameColor) ? 'dim' : 'none'
+		}
+		// 当前主题的配色与预设颜色
+		const palette = this.resolvePalette()
+		const presets = themePresetColors(this.host)
+		// 白板上的选中项，在小地图上以选中描边标出
+		const selection: Set<any> = canvas.selection ?? new Set()
+		// 图片节点有缩略图时显示缩略图，否则显示类型图标
+		const rectOf = (n: any, fill: string, stroke: string | null): MinimapRectItem => {
+			const kind = nodeKindOf(n)
+			const file = kind === 'image' ? nodeFileOf(n) : null
+			const thumbnail = file ? this.plugin.thumbnails.get(file) : null
+			return {
+				id: n.id, kind, x: n.x, y: n.y, width: n.width, height: n.height, fill, stroke,
+				glyph: thumbnail ? null : nodeGlyph(kind, n.x, n.y, n.width, n.height),
+				thumbnail,
+				emphasis: emphasisOf(n),
+				selected: selection.has(n),
+			}
+		}
+		const nodeItems = Array.from(children.values()).filter(isVisible).map((n: any) => {
+			if (!this.settings.useCanvasColors)
+				return rectOf(n, palette.nodeColor, null)
+			const strokeColor = convertNodeColor(n.color || DEFAULT_NODE_COLOR, presets);
+			return rectOf(n, blendColorWithOpacity(strokeColor, this.settings.nodeOpacity, palette.backgroundColor), strokeColor)
+		})
+		const groupItems = Array.from(groups.values()).filter(isVisible).map((n: any) => {
+			if (!this.settings.useCanvasColors)
+				return rectOf(n, palette.groupColor, null)
+			const strokeColor = convertNodeColor(n.color || DEFAULT_NODE_COLOR, presets);
+			return rectOf(n, addOpacityToHexColor(strokeColor, this.settings.groupOpacity), strokeColor)
+		})
+		// 标签按小地图当前的缩放比例布局：节点或连线足够大时才显示，并避免互相重叠
+		const surfaceWidth = this.surface?.clientWidth ?? 0
+		const surfaceHeight = this.surface?.clientHeight ?? 0
+		const labelCandidates: LabelCandidate[] = []
+		nodes.forEach((n: any) => {
+			if (!isVisible(n))
+				return
+			const text = labelTextOf(n)
+			if (text && (nodeKindOf(n) !== 'group' || this.settings.layers.groupLabels))
+				labelCandidates.push({
+					id: n.id, kind: nodeKindOf(n), x: n.x, y: n.y, width: n.width, height: n.height, text,
+					emphasis: emphasisOf(n),
+				})
+		})
+
+		const edgeItems: MinimapEdgeItem[] = []
+		edges.forEach((e: any) => {
+			if (!this.settings.layers.edges)
+				return
+			// 与白板一致的三次贝塞尔曲线：两个控制点分别沿起点、终点所在的边向外延伸
+			const fromPos = sidePositionOf(e.from.node, e.from.side);
+			const toPos = sidePositionOf(e.to.node, e.to.side);
+			const offset = clamp(Vector2.len(Vector2.sub(toPos, fromPos)) / 2, EDGE_CURVE_MIN, EDGE_CURVE_MAX);
+			const fromControl = Vector2.add(fromPos, Vector2.scale(sideDirectionOf(e.from.side), offset));
+			const toControl = Vector2.add(toPos, Vector2.scale(sideDirectionOf(e.to.side), offset));
+			const points = [fromPos, fromControl, toControl, toPos];
+			// 曲线位于四个控制点的包围盒内，可以用它做裁剪
+			if (visible && !isVisible(e.from.node) && !isVisible(e.to.node)) {
+				const edgeBounds = new BoundingBox(
+					Math.min(...points.map(v => v.x)), Math.min(...points.map(v => v.y)),
+					Math.max(...points.map(v => v.x)), Math.max(...points.map(v => v.y)))
+				if (!edgeBounds.intersects(viewBounds))
+					return
+			}
+
+			const stroke = this.settings.useCanvasColors && e.color ? convertNodeColor(e.color, presets) : palette.linkColor
+			const emphasis: MinimapEmphasis = e === this.hoveredEdge ? 'current' : this.search.isActive ? 'dim' : 'none'
+			edgeItems.push({
+				id: e.id,
+				d: `M${fromPos.x},${fromPos.y}C${fromControl.x},${fromControl.y} ${toControl.x},${toControl.y} ${toPos.x},${toPos.y}`,
+				points: points.flatMap(v => [v.x, v.y]),
+				stroke,
+				// 箭头设置缺省时与白板一致：起点无箭头，终点有箭头
+				fromArrow: (e.fromEnd ?? e.unknownData?.fromEnd ?? 'none') === 'arrow',
+				toArrow: (e.toEnd ?? e.unknownData?.toEnd ?? 'arrow') === 'arrow',
+				emphasis,
+			})
+
+			// 连线标签放在曲线中点（t = 0.5）
+			const label: string = e.label ?? e.unknownData?.label ?? ''
+			if (label.trim())
+				labelCandidates.push({
+					id: e.id, kind: 'edge',
+					x: (fromPos.x + 3 * fromControl.x + 3 * toControl.x + toPos.x) / 8,
+					y: (fromPos.y + 3 * fromControl.y + 3 * toControl.y + toPos.y) / 8,
+					width: Vector2.len(Vector2.sub(toPos, fromPos)), height: 0,
+					text: label.replace(/\s+/g, ' ').trim(),
+					emphasis,
+				})
+		})
+		const labelItems = surfaceWidth > 0 && surfaceHeight > 0
+			? layoutLabels(labelCandidates, viewBoxTransform(this.viewBox, surfaceWidth, surfaceHeight).scale, this.settings.fontSize)
+			: []
+
+		const scene: MinimapScene = {
+			viewBox: this.viewBox,
+			groups: groupItems,
+			nodes: nodeItems,
+			labels: labelItems,
+			edges: edgeItems,
+			viewpoints: this.canvasState.viewpoints.map((v, index) => ({
+				id: `${index}:${v.name}`, index,
+				x: v.bbox.minX, y: v.bbox.minY, width: v.bbox.maxX - v.bbox.minX, height: v.bbox.maxY - v.bbox.minY,
+			})),
+			fontSize: this.settings.fontSize,
+			fontColor: palette.fontColor,
+			haloColor: palette.backgroundColor,
+		}
+		this.ensureRenderer(nodes.size)?.render(scene)
+		this.legend?.update(legendEntriesOf(nodes.values()), this.settings.colorNames, presets, this.colorFilter, this.settings.legendCollapsed)
+	}
+
+	// 根据设置和节点数量选择渲染后端，需要时替换当前渲染器
+	ensureRenderer(nodeCount: number): MinimapRenderer | null {
+		if (!this.surface)
+			return null
+		let backend: MinimapRendererBackend
+		if (this.settings.rendererBackend === 'auto') {
+			backend = nodeCount > this.settings.canvasRendererThreshold ? 'canvas' : 'svg'
+		} else {
+			backend = this.settings.rendererBackend
+		}
+		if (this.renderer?.backend !== backend) {
+			this.renderer?.destroy()
+			this.renderer = backend === 'canvas'
+				? new CanvasMinimapRenderer(this.surface, this.settings.renderInWorker)
+				: new SvgMinimapRenderer(this.surface)
+		}
+		return this.renderer
+	}
+
+	// 让空间索引与画布节点保持一致：新增、移动的节点更新位置，已删除的节点移出索引
+	syncNodeIndex() {
+		const nodes: Map<string, any> = this.canvas.nodes
+		nodes.forEach((n: any) => this.nodeIndex.insert(n.id, n.bbox, n))
+		for (const id of this.nodeIndex.ids()) {
+			if (!nodes.has(id))
+				this.nodeIndex.remove(id)
+		}
+	}
+
+	// 返回包含小地图坐标点 p 的所有画布节点
+	nodesAt(p: Vector2): any[] {
+		return this.nodeIndex.searchPoint(p.x, p.y).filter((n: any) => this.isLayerShown(n))
+	}
+
+	// 节点所在的图层是否显示
+	isLayerShown(node: any): boolean {
+		return this.settings.layers[NODE_LAYERS[nodeKindOf(node)]]
+	}
+
+	// 图层菜单：勾选的图层显示在小地图中，设置对所有白板生效
+	showLayerMenu(e: MouseEvent) {
+		const menu = new Menu()
+		const layers: [MinimapLayer, keyof typeof en][] = [
+			['edges', 'layerEdges'],
+			['groups', 'layerGroups'],
+			['textNodes', 'layerTextNodes'],
+			['fileNodes', 'layerFileNodes'],
+			['linkNodes', 'layerLinkNodes'],
+			['groupLabels', 'layerGroupLabels'],
+		]
+		for (const [layer, name] of layers) {
+			menu.addItem(item => item
+				.setTitle(t(name))
+				.setChecked(this.settings.layers[layer])
+				.onClick(() => {
+					this.settings.layers[layer] = !this.settings.layers[layer]
+					this.plugin.saveSettings()
+				}))
+		}
+		menu.addItem(item => item
+			.setTitle(t('layerViewport'))
+			.setChecked(this.settings.drawActiveViewport)
+			.onClick(() => {
+				this.settings.drawActiveViewport = !this.settings.drawActiveViewport
+				this.plugin.saveSettings()
+			}))
+		menu.showAtMouseEvent(e)
+	}
+
+	// 跳到下一个（delta 为 -1 时上一个）搜索结果，按主导航策略移动画布
+	stepSearch(delta: number) {
+		const node = this.search.step(delta)
+		if (!node)
+			return
+		this.navigateTo(node, this.settings.primaryNavigationStrategy)
+		this.revealInMinimap(node.bbox)
+		this.update()
+	}
+
+	// 左键点击使用的导航策略：按住 Ctrl（macOS 上为 Cmd）、Shift、Alt 时各有设置，否则使用主导航策略
+	clickStrategyOf(e: MouseEvent): CanvasNavigationStrategy {
+		if (Keymap.isModifier(e, 'Mod'))
+			return this.settings.secondaryNavigationStrategy
+		if (Keymap.isModifier(e, 'Shift'))
+			return this.settings.shiftClickNavigationStrategy
+		if (Keymap.isModifier(e, 'Alt'))
+			return this.settings.altClickNavigationStrategy
+		return this.settings.primaryNavigationStrategy
+	}
+
+	navigateTo(node: any, strategy: CanvasNavigationStrategy) {
+		const bbox = node.bbox
+		switch (strategy) {
+			case 'PAN':
+				this.recordJump()
+				this.panCameraTo(bbox.minX + (bbox.maxX - bbox.minX) / 2, bbox.minY + (bbox.maxY - bbox.minY) / 2)
+				break
+			case 'ZOOM':
+				this.recordJump()
+				this.zoomCameraTo(bbox)
+				break
+			case 'ZOOM_GROUP':
+				// 不在任何分组中时缩放到节点本身
+				this.recordJump()
+				this.zoomCameraTo((this.enclosingGroupOf(node) ?? node).bbox)
+				break
+			case 'KEEP_ZOOM': {
+				this.recordJump()
+				const viewport = this.canvas.getViewportBBox()
+				if (bbox.maxX - bbox.minX <= viewport.maxX - viewport.minX && bbox.maxY - bbox.minY <= viewport.maxY - viewport.minY)
+					this.panCameraTo(bbox.minX + (bbox.maxX - bbox.minX) / 2, bbox.minY + (bbox.maxY - bbox.minY) / 2)
+				else
+					this.zoomCameraTo(bbox) // 节点比视口大，只能缩小
+				break
+			}
+			case 'SELECT':
+				this.canvas.selectOnly(node)
+				break
+			case 'OPEN_FILE': {
+				const file = nodeFileOf(node)
+				if (file)
+					this.plugin.app.workspace.getLeaf('tab').openFile(file)
+				break
+			}
+		}
+	}
+
+	// 选中完全位于 bounds（画布坐标）内的白板节点；additive 为 true 时保留原有的选中项
+	selectNodesIn(bounds: BoundingBox, additive: boolean) {
+		// 隐藏图层中的节点在小地图上看不到，不参与框选
+		const nodes = this.nodeIndex.search(bounds).filter((n: any) => this.isLayerShown(n)
+			&& bounds.containsBox(new BoundingBox(n.bbox.minX, n.bbox.minY, n.bbox.maxX, n.bbox.maxY)))
+		const canvas = this.canvas
+		canvas.updateSelection(() => {
+			canvas.selection = new Set(additive ? [...canvas.selection, ...nodes] : nodes)
+		})
+	}
+
+	setEditMode(editMode: boolean) {
+		this.editMode = editMode
+		this.el?.select('.minimap-edit').classed('is-active', editMode)
+	}
+
+	// 拖动 node 时一起移动的节点：拖动选中项之一时移动所有选中项，分组带上其中的节点
+	nodesToDrag(node: any): any[] {
+		const selection: Set<any> = this.canvas.selection ?? new Set()
+		const roots = selection.has(node) ? Array.from(selection).filter((n: any) => this.canvas.nodes.has(n.id)) : [node]
+		const nodes = new Set<any>(roots)
+		for (const root of roots) {
+			if (nodeKindOf(root) !== 'group')
+				continue
+			const bounds = new BoundingBox(root.bbox.minX, root.bbox.minY, root.bbox.maxX, root.bbox.maxY)
+			for (const n of this.nodeIndex.search(bounds)) {
+				if (bounds.containsBox(new BoundingBox(n.bbox.minX, n.bbox.minY, n.bbox.maxX, n.bbox.maxY)))
+					nodes.add(n)
+			}
+		}
+		return Array.from(nodes)
+	}
+
+	// 节点的右键菜单：导航、选中、打开文件、修改颜色和复制链接
+	showNodeMenu(e: MouseEvent, node: any) {
+		const menu = new Menu()
+		menu.addItem(item => item
+			.setTitle(t('zoomToNode'))
+			.setIcon('zoom-in')
+			.onClick(() => this.navigateTo(node, 'ZOOM')))
+		menu.addItem(item => item
+			.setTitle(t('panToNode'))
+			.setIcon('move')
+			.onClick(() => this.navigateTo(node, 'PAN')))
+		menu.addItem(item => item
+			.setTitle(t('selectNode'))
+			.setIcon('mouse-pointer-click')
+			.onClick(() => this.navigateTo(node, 'SELECT')))
+		if (nodeFileOf(node))
+			menu.addItem(item => item
+				.setTitle(t('openFile'))
+				.setIcon('file-plus')
+				.onClick(() => this.navigateTo(node, 'OPEN_FILE')))
+
+		menu.addSeparator()
+		const colors: [string, keyof typeof en][] = [
+			['', 'colorNone'],
+			...Object.keys(CANVAS_PRESET_COLORS).map((color): [string, keyof typeof en] => [color, `color${color}` as keyof typeof en]),
+		]
+		for (const [color, name] of colors) {
+			menu.addItem(item => item
+				.setTitle(t(name))
+				.setChecked((node.color ?? '') === color)
+				.onClick(() => this.setNodeColor(node, color)))
+		}
+
+		menu.addSeparator()
+		menu.addItem(item => item
+			.setTitle(t('copyCanvasLink'))
+			.setIcon('link')
+			.onClick(() => this.copyCanvasLink(node)))
+		menu.showAtMouseEvent(e)
+	}
+
+	// 修改节点颜色（'' 为默认颜色），作为一步写入撤销历史
+	setNodeColor(node: any, color: string) {
+		node.setColor(color)
+		this.canvas.pushHistory(this.canvas.getData())
+		this.canvas.requestSave()
+	}
+
+	// 复制指向该节点所在白板的链接，显示文本为节点的标签。
+	// Obsidian 无法解析指向白板节点的子路径，所以链接只指向白板文件本身
+	copyCanvasLink(node: any) {
+		const file = this.canvas.view?.file
+		if (!file)
+			return
+		// 去掉会破坏链接语法的字符
+		const alias = labelTextOf(node)?.replace(/[[\]|#^]/g, '').trim() || undefined
+		const link = this.plugin.app.fileManager.generateMarkdownLink(file, '', undefined, alias)
+		this.win.navigator.clipboard.writeText(link)
+			.then(() => new Notice(t('canvasLinkCopied')))
+			.catch(() => new Notice(t('canvasLinkCopyFailed')))
+	}
+
+	// 包含节点的最小分组，没有时返回 null
+	enclosingGroupOf(node: any): any | null {
+		const bbox = new BoundingBox(node.bbox.minX, node.bbox.minY, node.bbox.maxX, node.bbox.maxY)
+		let enclosing: any = null
+		let area = Infinity
+		for (const n of this.nodeIndex.search(bbox)) {
+			if (n === node || nodeKindOf(n) !== 'group')
+				continue
+			const groupBox = new BoundingBox(n.bbox.minX, n.bbox.minY, n.bbox.maxX, n.bbox.maxY)
+			if (groupBox.containsBox(bbox) && groupBox.width() * groupBox.height() < area) {
+				enclosing = n
+				area = groupBox.width() * groupBox.height()
+			}
+		}
+		return enclosing
+	}
+
+	// 缩放白板到节点并闪烁标出，用于跳转命令
+	zoomToNode(node: any) {
+		this.recordJump()
+		this.zoomCameraTo(node.bbox)
+		this.pulse(node)
+	}
+
+	// 白板当前视口（画布坐标）
+	private currentViewport(): Bounds {
+		const { minX, minY, maxX, maxY } = this.canvas.getViewportBBox()
+		return { minX, minY, maxX, maxY }
+	}
+
+	// 移动白板视口：开启过渡动画时从当前视口插值到 target，最后由 jump 精确落到目标
+	private moveCamera(target: Bounds, jump: () => void) {
+		if (!this.settings.animateNavigation) {
+			this.camera.cancel()
+			jump()
+			return
+		}
+		this.camera.start(target, { duration: this.settings.animationDuration, easing: this.settings.animationEasing }, jump)
+	}
+
+	// 保持缩放级别，将白板中心移动到 (x, y)
+	panCameraTo(x: number, y: number) {
+		const viewport = this.currentViewport()
+		const halfWidth = (viewport.maxX - viewport.minX) / 2
+		const halfHeight = (viewport.maxY - viewport.minY) / 2
+		this.moveCamera({ minX: x - halfWidth, minY: y - halfHeight, maxX: x + halfWidth, maxY: y + halfHeight },
+			() => this.canvas.panTo(x, y))
+	}
+
+	// 缩放白板以完整显示 bbox
+	zoomCameraTo(bbox: Bounds) {
+		// 动画的终点按白板视口的宽高比扩展 bbox，与 zoomToBbox 的结果一致
+		const viewport = this.currentViewport()
+		const aspect = (viewport.maxX - viewport.minX) / (viewport.maxY - viewport.minY)
+		let width = bbox.maxX - bbox.minX
+		let height = bbox.maxY - bbox.minY
+		if (width < height * aspect)
+			width = height * aspect
+		else
+			height = width / aspect
+		const x = (bbox.minX + bbox.maxX) / 2
+		const y = (bbox.minY + bbox.maxY) / 2
+		this.moveCamera({ minX: x - width / 2, minY: y - height / 2, maxX: x + width / 2, maxY: y + height / 2 },
+			() => this.canvas.zoomToBbox(bbox))
+	}
+
+	// 小地图发起跳转之前调用，把跳转前的视口记入历史
+	recordJump() {
+		this.history.push(this.currentViewport())
+		// 跳转本身不算手动移动
+		this.settledViewport = null
+		this.updateHistoryButtons()
+	}
+
+	goBack() {
+		this.restoreViewport(this.history.back(this.currentViewport()))
+	}
+
+	goForward() {
+		this.restoreViewport(this.history.forward(this.currentViewport()))
+	}
+
+	private restoreViewport(viewport: Bounds | null) {
+		if (!viewport)
+			return
+		this.settledViewport = null
+		this.zoomCameraTo(viewport)
+		this.updateHistoryButtons()
+	}
+
+	// 以当前视口作为手动移动的起点，之后第一次较大的移动也能记入历史
+	resetSettledViewport() {
+		this.settledViewport = this.currentViewport()
+	}
+
+	// 视口停止变化：与上次停止时相比移动或缩放幅度较大时，把上次的位置记入历史
+	private settleViewport() {
+		const previous = this.settledViewport
+		const current = this.currentViewport()
+		this.settledViewport = current
+		if (!previous)
+			return
+		const width = previous.maxX - previous.minX
+		const height = previous.maxY - previous.minY
+		const dx = Math.abs((current.minX + current.maxX) - (previous.minX + previous.maxX)) / 2
+		const dy = Math.abs((current.minY + current.maxY) - (previous.minY + previous.maxY)) / 2
+		const zoom = (current.maxX - current.minX) / width
+		if (dx > width * MANUAL_MOVE_DISTANCE || dy > height * MANUAL_MOVE_DISTANCE
+			|| zoom > MANUAL_MOVE_ZOOM || zoom < 1 / MANUAL_MOVE_ZOOM) {
+			this.history.push(previous)
+			this.updateHistoryButtons()
+		}
+	}
+
+	updateHistoryButtons() {
+		this.el?.select('.minimap-back').classed('is-disabled', !this.history.canGoBack)
+		this.el?.select('.minimap-forward').classed('is-disabled', !this.history.canGoForward)
+	}
+
+	// 小地图被放大且目标不在可见范围内时，把小地图视图移到目标上，返回是否移动了
+	revealInMinimap(bbox: any): boolean {
+		const viewBox = this.canvasState.viewBox
+		if (!viewBox)
+			return false
+		const visible = new BoundingBox(viewBox.x, viewBox.y, viewBox.x + viewBox.width, viewBox.y + viewBox.height)
+		if (visible.intersects(bbox))
+			return false
+		this.updateCanvasState({
+			viewBox: {
+				...viewBox,
+				x: (bbox.minX + bbox.maxX) / 2 - viewBox.width / 2,
+				y: (bbox.minY + bbox.maxY) / 2 - viewBox.height / 2,
+			}
+		})
+		this.requestSaveCanvasState()
+		return true
+	}
+
+	// 在小地图上闪烁标出节点，用于跳转命令的预览
+	pulse(node: any) {
+		const surface = this.surface
+		if (!surface || this.canvasState.collapsed)
+			return
+		if (this.revealInMinimap(node.bbox))
+			this.update()
+		const { scale, offsetX, offsetY } = viewBoxTransform(this.viewBox, surface.clientWidth, surface.clientHeight)
+		// 节点在小地图上太小时放大标记，保证看得见
+		const width = Math.max(node.width * scale, PULSE_MIN_SIZE)
+		const height = Math.max(node.height * scale, PULSE_MIN_SIZE)
+		const left = (node.x + node.width / 2) * scale + offsetX - width / 2
+		const top = (node.y + node.height / 2) * scale + offsetY - height / 2
+		surface.querySelector('.minimap-pulse')?.remove()
+		const el = surface.createDiv({ cls: 'minimap-pulse' })
+		el.style.left = left + 'px'
+		el.style.top = top + 'px'
+		el.style.width = width + 'px'
+		el.style.height = height + 'px'
+		el.addEventListener('animationend', () => el.remove())
+	}
+
+	// 小地图坐标点 p 所在的视点标记序号，没有时返回 -1
+	viewpointAt(p: Vector2): number {
+		const surface = this.surface
+		if (!surface || this.canvasState.viewpoints.length === 0)
+			return -1
+		const { scale } = viewBoxTransform(this.viewBox, surface.clientWidth, surface.clientHeight)
+		const size = VIEWPOINT_BADGE_SIZE / scale
+		// 后保存的视点绘制在上层
+		for (let i = this.canvasState.viewpoints.length - 1; i >= 0; i--) {
+			const { minX, minY } = this.canvasState.viewpoints[i].bbox
+			if (new BoundingBox(minX, minY, minX + size, minY + size).contains(p))
+				return i
+		}
+		return -1
+	}
+
+	promptSaveViewpoint() {
+		const defaultName = `${t('viewpoint')} ${this.canvasState.viewpoints.length + 1}`
+		new ViewpointNameModal(this.plugin.app, defaultName, name => this.saveViewpoint(name)).open()
+	}
+
+	// 将白板当前视口保存为命名视点
+	saveViewpoint(name: string) {
+		const { minX, minY, maxX, maxY } = this.canvas.getViewportBBox()
+		this.updateCanvasState({ viewpoints: [...this.canvasState.viewpoints, { name, bbox: { minX, minY, maxX, maxY } }] })
+		this.plugin.saveSettings(false)
+		this.update()
+	}
+
+	removeViewpoint(index: number) {
+		this.updateCanvasState({ viewpoints: this.canvasState.viewpoints.filter((_, i) => i !== index) })
+		this.plugin.saveSettings(false)
+		this.update()
+	}
+
+	goToViewpoint(index: number) {
+		const viewpoint = this.canvasState.viewpoints[index]
+		if (!viewpoint)
+			return
+		this.recordJump()
+		this.zoomCameraTo(viewpoint.bbox)
+		if (this.revealInMinimap(viewpoint.bbox))
+			this.update()
+	}
+
+	showViewpointMenu(e: MouseEvent) {
+		const menu = new Menu()
+		const viewpoints = this.canvasState.viewpoints
+		if (viewpoints.length === 0)
+			menu.addItem(item => item.setTitle(t('noViewpoints')).setDisabled(true))
+		viewpoints.forEach((viewpoint, i) => menu.addItem(item => item
+			.setTitle(`${i + 1}. ${viewpoint.name}`)
+			.setIcon('locate')
+			.onClick(() => this.goToViewpoint(i))))
+		menu.addSeparator()
+		menu.addItem(item => item
+			.setTitle(t('saveViewpoint'))
+			.setIcon('bookmark-plus')
+			.onClick(() => this.promptSaveViewpoint()))
+		viewpoints.forEach((viewpoint, i) => menu.addItem(item => item
+			.setTitle(`${t('removeViewpoint')}: ${viewpoint.name}`)
+			.setIcon('trash')
+			.onClick(() => this.removeViewpoint(i))))
+		menu.showAtMouseEvent(e)
+	}
+
+	setColorFilter(filter: MinimapColorFilter | null) {
+		this.colorFilter = filter
+		this.colorStep = -1
+		this.update()
+	}
+
+	// 按阅读顺序（从上到下、从左到右）跳到筛选颜色的下一个（delta 为 -1 时上一个）节点
+	stepColor(delta: number) {
+		const filter = this.colorFilter
+		if (!filter)
+			return
+		const nodes = Array.from(this.canvas.nodes.values())
+			.filter((n: any) => colorKeyOf(n) === filter.color)
+			.sort((a: any, b: any) => a.y - b.y || a.x - b.x)
+		if (nodes.length === 0)
+			return
+		this.colorStep = this.colorStep < 0
+			? (delta > 0 ? 0 : nodes.length - 1)
+			: (this.colorStep + delta + nodes.length) % nodes.length
+		const node = nodes[this.colorStep]
+		this.navigateTo(node, this.settings.primaryNavigationStrategy)
+		this.pulse(node)
+	}
+
+	// 点击、悬停共用的命中测试：普通节点优先，其次是连线，最后才是分组（分组往往覆盖其中的连线）
+	targetAt(p: Vector2, e: MouseEvent): { node: any | null, edge: any | null } {
+		const node = this.nodeAt(p)
+		if (node && nodeKindOf(node) !== 'group')
+			return { node, edge: null }
+		const edgeId = this.renderer?.edgeAt(e)
+		const edge = edgeId ? this.canvas.edges.get(edgeId) ?? null : null
+		return edge ? { node: null, edge } : { node, edge: null }
+	}
+
+	setHoveredEdge(edge: any | null) {
+		if (edge === this.hoveredEdge)
+			return
+		this.hoveredEdge = edge
+		this.scheduleUpdate()
+	}
+
+	// 沿连线跳到离小地图坐标点 p 较远的一端节点，按主导航策略移动
+	followEdge(edge: any, p: Vector2) {
+		const distanceTo = (node: any) => Vector2.lenSq(new Vector2(
+			(node.bbox.minX + node.bbox.maxX) / 2 - p.x, (node.bbox.minY + node.bbox.maxY) / 2 - p.y))
+		const { from, to } = edge
+		const target = distanceTo(from.node) > distanceTo(to.node) ? from.node : to.node
+		this.navigateTo(target, this.settings.primaryNavigationStrategy)
+	}
+
+	// 缩放白板，同时显示连线的两端节点
+	fitEdge(edge: any) {
+		const a = edge.from.node.bbox
+		const b = edge.to.node.bbox
+		this.recordJump()
+		this.zoomCameraTo({
+			minX: Math.min(a.minX, b.minX), minY: Math.min(a.minY, b.minY),
+			maxX: Math.max(a.maxX, b.maxX), maxY: Math.max(a.maxY, b.maxY),
+		})
+	}
+
+	// 点击、悬停共用的命中测试：包含 p 的节点中左上角离 p 最近的一个
+	nodeAt(p: Vector2): any | null {
+		let nearest: any = null
+		let distSq = Infinity
+		for (const n of this.nodesAt(p)) {
+			const current_distSq = Vector2.lenSq(new Vector2(n.bbox.minX - p.x, n.bbox.minY - p.y))
+			if (current_distSq < distSq) {
+				distSq = current_distSq
+				nearest = n
+			}
+		}
+		return nearest
+	}
+
+	renderViewport() {
+		if (!this.renderer)
+			return
+		if(!this.settings.drawActiveViewport) {
+			this.renderer.renderViewport(null)
+			return
+		}
+		this.renderer.renderViewport(this.canvas.getViewportBBox())
+	}
+}
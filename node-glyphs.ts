@@ -0,0 +1,80 @@
+import { TFile } from 'obsidian';
+import { t } from 'i18n';
+import en from 'i18n/en';
+import { MinimapNodeKind } from 'renderer';
+
+// 在小地图上以缩略图显示的图片文件类型
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'svg', 'webp', 'avif'];
+
+export function isImageFile(file: TFile) {
+	return IMAGE_EXTENSIONS.includes(file.extension.toLowerCase());
+}
+
+// 文件节点链接的库文件；文件不存在时返回 null
+export function nodeFileOf(node: any): TFile | null {
+	return node.file instanceof TFile ? node.file : null;
+}
+
+export function nodeKindOf(node: any): MinimapNodeKind {
+	switch (node.unknownData?.type) {
+		case 'group':
+			return 'group';
+		case 'link':
+			return 'link';
+		case 'file': {
+			const file = nodeFileOf(node);
+			return file && isImageFile(file) ? 'image' : 'file';
+		}
+		default:
+			return 'text';
+	}
+}
+
+const KIND_NAMES: Record<MinimapNodeKind, keyof typeof en> = {
+	group: 'tooltipGroup',
+	text: 'tooltipText',
+	file: 'tooltipFile',
+	link: 'tooltipLink',
+	image: 'tooltipImage',
+};
+
+// 节点类型的显示名称
+export function nodeKindName(kind: MinimapNodeKind) {
+	return t(KIND_NAMES[kind]);
+}
+
+/**
+ * 节点类型图标的 path 数据（画布坐标），按节点大小缩放：
+ * 文本为几行文字，文件为折角的纸张，链接为地球，图片（缩略图未载入时）为山形。
+ */
+export function nodeGlyph(kind: MinimapNodeKind, x: number, y: number, width: number, height: number): string | null {
+	const s = Math.min(width, height);
+	const cx = x + width / 2;
+	const cy = y + height / 2;
+	switch (kind) {
+		case 'text': {
+			const left = x + width * 0.2;
+			const right = x + width * 0.8;
+			const gap = s * 0.15;
+			return [-1, 0, 1].map(i => `M${left},${cy + i * gap}H${i === 1 ? (left + right) / 2 : right}`).join('');
+		}
+		case 'file': {
+			const fold = s * 0.25;
+			return `M${x + width - fold},${y}V${y + fold}H${x + width}`;
+		}
+		case 'link': {
+			const r = s * 0.25;
+			return `M${cx - r},${cy}a${r},${r} 0 1,0 ${2 * r},0a${r},${r} 0 1,0 ${-2 * r},0`
+				+ `M${cx},${cy - r}a${r / 2},${r} 0 1,0 0,${2 * r}a${r / 2},${r} 0 1,0 0,${-2 * r}`
+				+ `M${cx - r},${cy}h${2 * r}`;
+		}
+		case 'image': {
+			const bottom = y + height * 0.75;
+			return `M${x + width * 0.15},${bottom}L${x + width * 0.4},${y + height * 0.35}`
+				+ `L${x + width * 0.6},${y + height * 0.6}L${x + width * 0.72},${y + height * 0.48}`
+				+ `L${x + width * 0.85},${bottom}Z`;
+		}
+		default:
+			return null;
+	}
+}
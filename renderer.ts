@@ -0,0 +1,718 @@
+import * as d3 from "d3";
+
+// 小地图渲染后端：SVG 适合中小型画布，Canvas2D 适合节点数量巨大的画布
+export type MinimapRendererBackend = 'svg' | 'canvas';
+
+export interface MinimapViewBox {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+export interface MinimapViewport {
+	minX: number;
+	minY: number;
+	maxX: number;
+	maxY: number;
+}
+
+// 白板节点类型，图片指链接到库中图片文件的文件节点
+export type MinimapNodeKind = 'group' | 'text' | 'file' | 'link' | 'image';
+// 标签所属元素的类型：节点或连线
+export type MinimapLabelKind = MinimapNodeKind | 'edge';
+
+// 搜索等功能对元素的强调：匹配项加粗描边，当前项更粗，其余元素变淡
+export type MinimapEmphasis = 'none' | 'match' | 'current' | 'dim';
+
+// 缩小后的图片缩略图：SVG 使用 data URL，Canvas 使用 ImageBitmap（可发送给 Worker）
+export interface MinimapThumbnail {
+	url: string;
+	bitmap: ImageBitmap | null;
+}
+
+export interface MinimapRectItem {
+	id: string;
+	kind: MinimapNodeKind;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	fill: string;
+	stroke: string | null;
+	// 节点类型图标的 SVG path 数据（画布坐标），以描边方式绘制
+	glyph: string | null;
+	thumbnail: MinimapThumbnail | null;
+	emphasis: MinimapEmphasis;
+	// 在白板上被选中，绘制选中描边（优先于强调效果）
+	selected: boolean;
+}
+
+// 标签位置为画布坐标中文字基线的起点，字号以屏幕像素计，不随小地图缩放
+export interface MinimapLabelItem {
+	id: string;
+	kind: MinimapLabelKind;
+	x: number;
+	y: number;
+	text: string;
+	emphasis: MinimapEmphasis;
+}
+
+export interface MinimapEdgeItem {
+	id: string;
+	// SVG path 数据，Canvas 后端通过 Path2D 复用
+	d: string;
+	// 三次贝塞尔曲线的起点、两个控制点和终点（x, y 依次排列），用于确定箭头方向
+	points: number[];
+	stroke: string;
+	fromArrow: boolean;
+	toArrow: boolean;
+	emphasis: MinimapEmphasis;
+}
+
+// 保存的视点：画布坐标中的视口范围，左上角显示序号标记
+export interface MinimapViewpointItem {
+	id: string;
+	index: number;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+// 与渲染后端无关的场景描述，只包含可结构化克隆的纯数据（需要能发送给 Worker）
+export interface MinimapScene {
+	viewBox: MinimapViewBox;
+	groups: MinimapRectItem[];
+	nodes: MinimapRectItem[];
+	labels: MinimapLabelItem[];
+	edges: MinimapEdgeItem[];
+	viewpoints: MinimapViewpointItem[];
+	fontSize: number;
+	fontColor: string;
+	// 标签文字描边的颜色，与小地图背景一致
+	haloColor: string;
+}
+
+export interface MinimapRenderer {
+	readonly backend: MinimapRendererBackend;
+	readonly element: Element;
+	render(scene: MinimapScene): void;
+	renderViewport(viewport: MinimapViewport | null): void;
+	// 将鼠标事件转换为小地图（画布）坐标
+	pointer(e: MouseEvent): [number, number];
+	// 鼠标位置下的连线 id，命中宽度以屏幕像素计
+	edgeAt(e: MouseEvent): string | null;
+	destroy(): void;
+}
+
+// 与 SVG 默认的 preserveAspectRatio="xMidYMid meet" 一致的缩放与偏移
+export function viewBoxTransform(viewBox: MinimapViewBox, width: number, height: number) {
+	const scale = Math.min(width / viewBox.width, height / viewBox.height);
+	return {
+		scale,
+		offsetX: (width - viewBox.width * scale) / 2 - viewBox.x * scale,
+		offsetY: (height - viewBox.height * scale) / 2 - viewBox.y * scale,
+	};
+}
+
+const VIEWPORT_FILL = 'rgba(240, 255, 255, 0.1)'; // azure, 0.1
+const VIEWPORT_STROKE = 'orange';
+const VIEWPORT_STROKE_WIDTH = 12;
+// 以屏幕像素计的图标线宽和链接节点边框虚线
+const GLYPH_STROKE_WIDTH = 1.5;
+const LINK_DASH = [4, 3];
+// 连线的命中宽度（像素）
+const EDGE_HIT_WIDTH = 8;
+// 强调效果：变淡元素的不透明度，匹配项与当前项的描边颜色和宽度（像素）
+const DIM_OPACITY = 0.2;
+const HIGHLIGHT_COLOR = '#7f6df2';
+const HIGHLIGHT_WIDTH: Record<MinimapEmphasis, number> = { none: 0, dim: 0, match: 2, current: 3.5 };
+// 白板选中节点的描边颜色和宽度（像素）
+const SELECTION_COLOR = '#00bfbc';
+const SELECTION_WIDTH = 2.5;
+// 连线的线宽（画布坐标）；箭头的长度和半宽以线宽计
+const EDGE_WIDTH = 4;
+const ARROW_LENGTH = 4;
+const ARROW_HALF_WIDTH = 1.4;
+// 箭头 marker 的 id 在文档内必须唯一，每个渲染器实例使用不同的前缀
+let markerInstanceCount = 0;
+// 视点的轮廓颜色与序号标记的边长（像素）
+const VIEWPOINT_COLOR = '#2e9be6';
+export const VIEWPOINT_BADGE_SIZE = 14;
+
+export class SvgMinimapRenderer implements MinimapRenderer {
+	readonly backend = 'svg';
+	readonly element: SVGSVGElement;
+	private svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+	// 已绘制元素的签名（按节点/连线 id），用于增量更新
+	private renderedSignatures: Map<string, string> = new Map();
+	private renderedScale = 0;
+	// 箭头 marker 按颜色创建，颜色到 marker id 的映射
+	private markerPrefix = `minimap-arrowhead-${++markerInstanceCount}`;
+	private markerIds: Map<string, string> = new Map();
+
+	constructor(parent: HTMLElement) {
+		this.svg = d3.select(parent).append('svg')
+			.style('width', '100%')
+			.style('height', '100%')
+		this.element = this.svg.node() as SVGSVGElement
+
+		// 箭头 markers，由 render 按连线颜色创建
+		this.svg.append("defs")
+
+		this.svg.append('g').attr('class', 'minimap_bg')
+		const mg = this.svg.append('g').attr('class', 'minimap_mg')
+		const fg = this.svg.append('g').attr('class', 'minimap_fg')
+		const ffg = this.svg.append('g').attr('class', 'minimap_ffg')
+		mg.append('g').attr('class', 'minimap_groups')
+		mg.append('g').attr('class', 'minimap_edges')
+		fg.append('g').attr('class', 'minimap_nodes')
+		fg.append('g').attr('class', 'minimap_labels')
+		ffg.append('g').attr('class', 'minimap_edge_hits')
+		ffg.append('g').attr('class', 'minimap_viewpoints')
+		ffg.append('rect')
+			.attr('class', 'minimap_viewport')
+			.attr('fill', 'none')
+	}
+
+	render(scene: MinimapScene) {
+		const { viewBox } = scene
+		this.svg.attr("viewBox", `${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`)
+
+		// 对比签名，找出新增或变化的元素；已删除的由数据连接的 exit 处理
+		const dirty = new Set<string>()
+		const seen = new Set<string>()
+		const track = (id: string, signature: string) => {
+			seen.add(id)
+			if (this.renderedSignatures.get(id) !== signature) {
+				this.renderedSignatures.set(id, signature)
+				dirty.add(id)
+			}
+		}
+		const rectSignature = (r: MinimapRectItem) =>
+			`${r.kind},${r.x},${r.y},${r.width},${r.height},${r.fill},${r.stroke},${r.glyph},${r.thumbnail?.url},${r.emphasis},${r.selected}`
+		scene.groups.forEach(r => track(r.id, rectSignature(r)))
+		scene.nodes.forEach(r => track(r.id, rectSignature(r)))
+		// 字号和颜色对所有标签生效，随主题切换时需要全部更新
+		const labelStyle = `${scene.fontSize},${scene.fontColor},${scene.haloColor}`
+		scene.labels.forEach(l => track(`label:${l.id}`, `${l.kind},${l.x},${l.y},${l.text},${l.emphasis},${labelStyle}`))
+		scene.edges.forEach(e => track(e.id, `${e.d},${e.stroke},${e.fromArrow},${e.toArrow},${e.emphasis}`))
+		for (const id of Array.from(this.renderedSignatures.keys())) {
+			if (!seen.has(id))
+				this.renderedSignatures.delete(id)
+		}
+
+		const joinRects = (parent: string, className: string, data: MinimapRectItem[]) => this.svg
+			.select(parent)
+			.selectAll(`g.${className}`)
+			.data(data, (d: MinimapRectItem) => d.id)
+			.join(
+				(enter: any) => {
+					const g = enter.append('g').attr('class', className)
+					g.append('rect')
+					g.append('image').attr('preserveAspectRatio', 'xMidYMid meet')
+					// 图标和链接节点的虚线边框不随缩放变粗变细
+					g.append('path')
+						.attr('class', 'minimap-glyph')
+						.attr('fill', 'none')
+						.attr('stroke-width', GLYPH_STROKE_WIDTH)
+						.attr('stroke-linecap', 'round')
+						.attr('vector-effect', 'non-scaling-stroke')
+					return g
+				},
+				(update: any) => update,
+				(exit: any) => exit.remove()
+			)
+			.filter((d: MinimapRectItem) => dirty.has(d.id))
+			.attr('class', (d: MinimapRectItem) => `${className} ${className}-${d.kind}`)
+			.attr('opacity', (d: MinimapRectItem) => d.emphasis === 'dim' ? DIM_OPACITY : null)
+			.call((g: any) => g.select('rect')
+				.attr('data-node-id', (d: MinimapRectItem) => d.id)
+				.attr('x', (d: MinimapRectItem) => d.x)
+				.attr('y', (d: MinimapRectItem) => d.y)
+				.attr('width', (d: MinimapRectItem) => d.width)
+				.attr('height', (d: MinimapRectItem) => d.height)
+				.attr('fill', (d: MinimapRectItem) => d.fill)
+				.attr('stroke', (d: MinimapRectItem) =>
+					d.selected ? SELECTION_COLOR : HIGHLIGHT_WIDTH[d.emphasis] ? HIGHLIGHT_COLOR : d.stroke)
+				.attr('stroke-width', (d: MinimapRectItem) =>
+					d.selected ? SELECTION_WIDTH : HIGHLIGHT_WIDTH[d.emphasis] || null)
+				.attr('stroke-dasharray', (d: MinimapRectItem) => d.kind === 'link' && !d.selected ? LINK_DASH.join(' ') : null)
+				.attr('vector-effect', (d: MinimapRectItem) =>
+					d.kind === 'link' || d.selected || HIGHLIGHT_WIDTH[d.emphasis] ? 'non-scaling-stroke' : null))
+			.call((g: any) => g.select('image')
+				.attr('display', (d: MinimapRectItem) => d.thumbnail ? null : 'none')
+				.attr('href', (d: MinimapRectItem) => d.thumbnail?.url ?? null)
+				.attr('x', (d: MinimapRectItem) => d.x)
+				.attr('y', (d: MinimapRectItem) => d.y)
+				.attr('width', (d: MinimapRectItem) => d.width)
+				.attr('height', (d: MinimapRectItem) => d.height))
+			.call((g: any) => g.select('path')
+				.attr('d', (d: MinimapRectItem) => d.glyph ?? '')
+				.attr('stroke', (d: MinimapRectItem) => d.stroke ?? d.fill))
+
+		joinRects('.minimap_groups', 'minimap-group', scene.groups)
+		joinRects('.minimap_nodes', 'minimap-node', scene.nodes)
+
+		// 标签以屏幕像素字号绘制，再用反向缩放抵消 viewBox 的缩放，
+		// 避免极小的 font-size 导致文字模糊；缩放级别变化时需要全部更新
+		const rect = this.element.getBoundingClientRect();
+		const scale = viewBoxTransform(viewBox, rect.width, rect.height).scale;
+		const scaleChanged = scale !== this.renderedScale
+		this.renderedScale = scale
+
+		this.svg.select('.minimap_labels')
+			.selectAll('text')
+			.data(scene.labels, (d: MinimapLabelItem) => d.id)
+			.join(
+				(enter: any) => enter.append('text')
+					.attr("text-anchor", "start")
+					.attr("font-family", "sans-serif")
+					.style("paint-order", "stroke fill")
+					.style("stroke-width", 0.5),
+				(update: any) => update,
+				(exit: any) => exit.remove()
+			)
+			.filter((d: MinimapLabelItem) => scaleChanged || dirty.has(`label:${d.id}`))
+			.text((d: MinimapLabelItem) => d.text)
+			.attr("transform", (d: MinimapLabelItem) => `translate(${d.x},${d.y}) scale(${1 / scale})`)
+			.attr("font-weight", (d: MinimapLabelItem) => d.kind === 'group' ? 'bold' : 'normal')
+			.attr("fill", scene.fontColor)
+			.style("stroke", scene.haloColor)
+			.attr("font-size", scene.fontSize + "px")
+			.attr("opacity", (d: MinimapLabelItem) => d.emphasis === 'dim' ? DIM_OPACITY : null)
+
+		const joinPaths = (parent: string, className: string) => this.svg
+			.select(parent)
+			.selectAll(`path.${className}`)
+			.data(scene.edges, (d: MinimapEdgeItem) => d.id)
+			.join(
+				(enter: any) => enter.append('path')
+					.attr('class', className)
+					.attr("fill", "none"),
+				(update: any) => update,
+				(exit: any) => exit.remove()
+			)
+			.filter((d: MinimapEdgeItem) => dirty.has(d.id))
+			.attr("d", (d: MinimapEdgeItem) => d.d)
+
+		// 箭头与连线同色，每种颜色一个 marker，起点方向由 auto-start-reverse 翻转
+		const edgeColor = (d: MinimapEdgeItem) => HIGHLIGHT_WIDTH[d.emphasis] ? HIGHLIGHT_COLOR : d.stroke
+		const markerOf = (color: string) => {
+			let id = this.markerIds.get(color)
+			if (!id) {
+				id = `${this.markerPrefix}-${this.markerIds.size}`
+				this.markerIds.set(color, id)
+			}
+			return id
+		}
+		const arrowColors = Array.from(new Set(scene.edges.filter(e => e.fromArrow || e.toArrow).map(edgeColor)))
+		this.svg.select('defs')
+			.selectAll('marker')
+			.data(arrowColors, (d: string) => d)
+			.join(
+				(enter: any) => enter.append('marker')
+					.attr('viewBox', '0 0 10 7')
+					.attr('markerWidth', ARROW_LENGTH)
+					.attr('markerHeight', ARROW_HALF_WIDTH * 2)
+					.attr('refX', 10)
+					.attr('refY', 3.5)
+					.attr('orient', 'auto-start-reverse')
+					.call((marker: any) => marker.append('polygon').attr('points', '0 0, 10 3.5, 0 7')),
+				(update: any) => update,
+				(exit: any) => exit.remove()
+			)
+			.attr('id', (d: string) => markerOf(d))
+			.select('polygon')
+			.attr('fill', (d: string) => d)
+
+		joinPaths('.minimap_edges', 'minimap-edge')
+			.attr("stroke", edgeColor)
+			.attr("stroke-width", EDGE_WIDTH)
+			.attr("marker-start", (d: MinimapEdgeItem) => d.fromArrow ? `url(#${markerOf(edgeColor(d))})` : null)
+			.attr("marker-end", (d: MinimapEdgeItem) => d.toArrow ? `url(#${markerOf(edgeColor(d))})` : null)
+			.attr("opacity", (d: MinimapEdgeItem) => d.emphasis === 'dim' ? DIM_OPACITY : null)
+		// 视点数量很少，且标记大小依赖缩放级别，每次全部更新
+		this.svg.select('.minimap_viewpoints')
+			.selectAll('g.minimap-viewpoint')
+			.data(scene.viewpoints, (d: MinimapViewpointItem) => d.id)
+			.join(
+				(enter: any) => {
+					const g = enter.append('g').attr('class', 'minimap-viewpoint')
+					g.append('rect')
+						.attr('class', 'minimap-viewpoint-outline')
+						.attr('fill', 'none')
+						.attr('stroke', VIEWPOINT_COLOR)
+						.attr('stroke-width', GLYPH_STROKE_WIDTH)
+						.attr('stroke-dasharray', LINK_DASH.join(' '))
+						.attr('vector-effect', 'non-scaling-stroke')
+					const badge = g.append('g').attr('class', 'minimap-viewpoint-badge')
+					badge.append('rect')
+						.attr('width', VIEWPOINT_BADGE_SIZE)
+						.attr('height', VIEWPOINT_BADGE_SIZE)
+						.attr('rx', 3)
+						.attr('fill', VIEWPOINT_COLOR)
+					badge.append('text')
+						.attr('x', VIEWPOINT_BADGE_SIZE / 2)
+						.attr('y', VIEWPOINT_BADGE_SIZE / 2)
+						.attr('text-anchor', 'middle')
+						.attr('dominant-baseline', 'central')
+						.attr('font-family', 'sans-serif')
+						.attr('font-size', '10px')
+						.attr('font-weight', 'bold')
+						.attr('fill', '#ffffff')
+					return g
+				},
+				(update: any) => update,
+				(exit: any) => exit.remove()
+			)
+			.call((g: any) => g.select('.minimap-viewpoint-outline')
+				.attr('x', (d: MinimapViewpointItem) => d.x)
+				.attr('y', (d: MinimapViewpointItem) => d.y)
+				.attr('width', (d: MinimapViewpointItem) => d.width)
+				.attr('height', (d: MinimapViewpointItem) => d.height))
+			.call((g: any) => g.select('.minimap-viewpoint-badge')
+				.attr('transform', (d: MinimapViewpointItem) => `translate(${d.x},${d.y}) scale(${1 / scale})`)
+				.select('text')
+				.text((d: MinimapViewpointItem) => d.index + 1))
+
+		joinPaths('.minimap_edge_hits', 'minimap-edge-hit')
+			.attr("stroke", "transparent")
+			.attr("stroke-width", EDGE_HIT_WIDTH)
+			.attr("vector-effect", "non-scaling-stroke")
+			.style("pointer-events", "stroke")
+	}
+
+	renderViewport(viewport: MinimapViewport | null) {
+		const rect = this.svg.select('.minimap_viewport')
+		if (!viewport) {
+			rect.attr('fill', 'none').attr('stroke', null)
+			return
+		}
+		rect
+			.attr('x', viewport.minX)
+			.attr('y', viewport.minY)
+			.attr('width', viewport.maxX - viewport.minX)
+			.attr('height', viewport.maxY - viewport.minY)
+			.attr('fill', 'azure')
+			.attr('fill-opacity', '0.1')
+			.attr('stroke', VIEWPORT_STROKE)
+			.attr('stroke-width', VIEWPORT_STROKE_WIDTH)
+	}
+
+	pointer(e: MouseEvent): [number, number] {
+		return d3.pointer(e, this.element)
+	}
+
+	// 视口矩形位于命中路径之上，因此查找该点下的所有元素
+	edgeAt(e: MouseEvent): string | null {
+		const hit = this.element.ownerDocument.elementsFromPoint(e.clientX, e.clientY)
+			.find(el => el.classList.contains('minimap-edge-hit'))
+		return hit ? (d3.select(hit).datum() as MinimapEdgeItem).id : null
+	}
+
+	destroy() {
+		this.svg.remove()
+	}
+}
+
+/**
+ * 将场景绘制到 2D 上下文。
+ * 此函数会被序列化后在 Worker 中执行，因此不能引用任何外部变量或导入。
+ */
+function drawMinimapScene(ctx: CanvasRenderingContext2D, scene: MinimapScene, width: number, height: number, ratio: number) {
+	const viewBox = scene.viewBox
+	const scale = Math.min(width / viewBox.width, height / viewBox.height)
+	const offsetX = (width - viewBox.width * scale) / 2 - viewBox.x * scale
+	const offsetY = (height - viewBox.height * scale) / 2 - viewBox.y * scale
+
+	ctx.setTransform(ratio, 0, 0, ratio, 0, 0)
+	ctx.clearRect(0, 0, width, height)
+	ctx.setTransform(ratio * scale, 0, 0, ratio * scale, ratio * offsetX, ratio * offsetY)
+
+	// 与 SVG 后端的 GLYPH_STROKE_WIDTH、LINK_DASH、DIM_OPACITY、HIGHLIGHT_*、SELECTION_* 一致（Worker 中无法引用模块常量）
+	const glyphWidth = 1.5 / scale
+	const linkDash = [4 / scale, 3 / scale]
+	const alphaOf = (emphasis: MinimapEmphasis) => emphasis === 'dim' ? 0.2 : 1
+	const highlightWidth = (emphasis: MinimapEmphasis) => emphasis === 'current' ? 3.5 : emphasis === 'match' ? 2 : 0
+	// 与 SVG 的箭头 marker 一致：尖端位于端点，长度与半宽分别为线宽的 4 倍和 1.4 倍（EDGE_WIDTH、ARROW_*）
+	const drawArrow = (tipX: number, tipY: number, fromX: number, fromY: number) => {
+		const length = Math.hypot(tipX - fromX, tipY - fromY)
+		if (length === 0)
+			return
+		const ux = (tipX - fromX) / length, uy = (tipY - fromY) / length
+		const baseX = tipX - ux * 16, baseY = tipY - uy * 16
+		ctx.beginPath()
+		ctx.moveTo(tipX, tipY)
+		ctx.lineTo(baseX - uy * 5.6, baseY + ux * 5.6)
+		ctx.lineTo(baseX + uy * 5.6, baseY - ux * 5.6)
+		ctx.closePath()
+		ctx.fill()
+	}
+	const drawRect = (r: MinimapRectItem) => {
+		ctx.globalAlpha = alphaOf(r.emphasis)
+		ctx.fillStyle = r.fill
+		ctx.fillRect(r.x, r.y, r.width, r.height)
+		if (r.thumbnail?.bitmap) {
+			// 与 SVG 的 preserveAspectRatio="xMidYMid meet" 一致
+			const bitmap = r.thumbnail.bitmap
+			const fit = Math.min(r.width / bitmap.width, r.height / bitmap.height)
+			const w = bitmap.width * fit, h = bitmap.height * fit
+			ctx.drawImage(bitmap, r.x + (r.width - w) / 2, r.y + (r.height - h) / 2, w, h)
+		}
+		if (r.stroke) {
+			ctx.strokeStyle = r.stroke
+			ctx.lineWidth = r.kind === 'link' ? glyphWidth : 1
+			ctx.setLineDash(r.kind === 'link' ? linkDash : [])
+			ctx.strokeRect(r.x, r.y, r.width, r.height)
+			ctx.setLineDash([])
+		}
+		if (r.glyph) {
+			ctx.strokeStyle = r.stroke ?? r.fill
+			ctx.lineWidth = glyphWidth
+			ctx.lineCap = 'round'
+			ctx.stroke(new Path2D(r.glyph))
+		}
+		if (r.selected) {
+			ctx.strokeStyle = '#00bfbc'
+			ctx.lineWidth = 2.5 / scale
+			ctx.strokeRect(r.x, r.y, r.width, r.height)
+		} else if (highlightWidth(r.emphasis)) {
+			ctx.strokeStyle = '#7f6df2'
+			ctx.lineWidth = highlightWidth(r.emphasis) / scale
+			ctx.strokeRect(r.x, r.y, r.width, r.height)
+		}
+		ctx.globalAlpha = 1
+	}
+
+	// 与 SVG 图层顺序一致：分组、连线、节点、标签
+	scene.groups.forEach(drawRect)
+	ctx.lineWidth = 4
+	for (const e of scene.edges) {
+		ctx.globalAlpha = alphaOf(e.emphasis)
+		ctx.strokeStyle = ctx.fillStyle = highlightWidth(e.emphasis) ? '#7f6df2' : e.stroke
+		ctx.stroke(new Path2D(e.d))
+		// 箭头方向为端点处曲线的切线方向，即从相邻控制点指向端点
+		const [x0, y0, c0x, c0y, c1x, c1y, x1, y1] = e.points
+		if (e.fromArrow)
+			drawArrow(x0, y0, c0x, c0y)
+		if (e.toArrow)
+			drawArrow(x1, y1, c1x, c1y)
+	}
+	ctx.globalAlpha = 1
+	scene.nodes.forEach(drawRect)
+
+	// 标签在屏幕坐标系中绘制，字号不随缩放变化，保持清晰
+	ctx.setTransform(ratio, 0, 0, ratio, 0, 0)
+	ctx.fillStyle = scene.fontColor
+	ctx.strokeStyle = scene.haloColor
+	ctx.lineWidth = 0.5
+	for (const l of scene.labels) {
+		ctx.globalAlpha = alphaOf(l.emphasis)
+		ctx.font = `${l.kind === 'group' ? 'bold ' : ''}${scene.fontSize}px sans-serif`
+		const x = l.x * scale + offsetX
+		const y = l.y * scale + offsetY
+		ctx.strokeText(l.text, x, y)
+		ctx.fillText(l.text, x, y)
+	}
+	ctx.globalAlpha = 1
+
+	// 视点：虚线轮廓和左上角的序号标记，颜色与尺寸同 VIEWPOINT_COLOR、VIEWPOINT_BADGE_SIZE
+	ctx.font = 'bold 10px sans-serif'
+	ctx.textAlign = 'center'
+	ctx.textBaseline = 'middle'
+	for (const v of scene.viewpoints) {
+		const x = v.x * scale + offsetX
+		const y = v.y * scale + offsetY
+		ctx.strokeStyle = '#2e9be6'
+		ctx.lineWidth = 1.5
+		ctx.setLineDash([4, 3])
+		ctx.strokeRect(x, y, v.width * scale, v.height * scale)
+		ctx.setLineDash([])
+		ctx.fillStyle = '#2e9be6'
+		ctx.fillRect(x, y, 14, 14)
+		ctx.fillStyle = '#ffffff'
+		ctx.fillText(String(v.index + 1), x + 7, y + 7)
+	}
+	ctx.textAlign = 'start'
+	ctx.textBaseline = 'alphabetic'
+}
+
+// 当前 TypeScript 版本的 DOM 类型尚未包含 OffscreenCanvas
+declare const OffscreenCanvas: unknown;
+interface OffscreenCanvasHost {
+	transferControlToOffscreen(): Transferable;
+}
+
+const RENDER_WORKER_SOURCE = `
+const drawMinimapScene = ${drawMinimapScene.toString()};
+let ctx = null;
+self.onmessage = (e) => {
+	const msg = e.data;
+	if (msg.canvas)
+		ctx = msg.canvas.getContext('2d');
+	if (!ctx)
+		return;
+	ctx.canvas.width = Math.round(msg.width * msg.ratio);
+	ctx.canvas.height = Math.round(msg.height * msg.ratio);
+	drawMinimapScene(ctx, msg.scene, msg.width, msg.height, msg.ratio);
+};
+`;
+
+export class CanvasMinimapRenderer implements MinimapRenderer {
+	readonly backend = 'canvas';
+	readonly element: HTMLDivElement;
+	// 内容层可能交给 Worker 绘制；视口矩形绘制在单独的覆盖层上，视口变化时不必重绘全部节点
+	private content: HTMLCanvasElement;
+	private overlay: HTMLCanvasElement;
+	private context: CanvasRenderingContext2D | null = null;
+	private worker: Worker | null = null;
+	private workerUrl: string | null = null;
+	private scene: MinimapScene | null = null;
+	private viewport: MinimapViewport | null = null;
+	// 连线命中测试用的路径，场景更新后按需重建
+	private edgePaths: Map<string, Path2D> | null = null;
+
+	constructor(parent: HTMLElement, useWorker: boolean) {
+		this.element = parent.createDiv({ cls: 'minimap-canvas-renderer' })
+		this.element.style.position = 'relative'
+		this.element.style.width = '100%'
+		this.element.style.height = '100%'
+		this.content = this.element.createEl('canvas')
+		this.overlay = this.element.createEl('canvas')
+		for (const canvas of [this.content, this.overlay]) {
+			canvas.style.position = 'absolute'
+			canvas.style.left = '0'
+			canvas.style.top = '0'
+			canvas.style.width = '100%'
+			canvas.style.height = '100%'
+		}
+
+		if (useWorker && typeof OffscreenCanvas !== 'undefined' && 'transferControlToOffscreen' in this.content) {
+			try {
+				this.workerUrl = URL.createObjectURL(new Blob([RENDER_WORKER_SOURCE], { type: 'text/javascript' }))
+				this.worker = new Worker(this.workerUrl)
+				this.worker.onerror = (e) => {
+					console.warn('Canvas minimap: render worker failed, falling back to main thread', e)
+					this.fallbackToMainThread()
+				}
+				const offscreen = (this.content as unknown as OffscreenCanvasHost).transferControlToOffscreen()
+				this.worker.postMessage({ canvas: offscreen }, [offscreen])
+			} catch (e) {
+				// Worker 不可用（例如受 CSP 限制）时退回主线程绘制
+				console.warn('Canvas minimap: falling back to main thread rendering', e)
+				this.terminateWorker()
+			}
+		}
+		if (!this.worker)
+			this.context = this.content.getContext('2d')
+	}
+
+	private size() {
+		return {
+			width: this.element.clientWidth,
+			height: this.element.clientHeight,
+			ratio: this.element.win.devicePixelRatio || 1,
+		}
+	}
+
+	render(scene: MinimapScene) {
+		this.scene = scene
+		this.edgePaths = null
+		const { width, height, ratio } = this.size()
+		if (width === 0 || height === 0)
+			return
+		if (this.worker) {
+			this.worker.postMessage({ scene, width, height, ratio })
+		} else if (this.context) {
+			this.content.width = Math.round(width * ratio)
+			this.content.height = Math.round(height * ratio)
+			drawMinimapScene(this.context, scene, width, height, ratio)
+		}
+		this.drawViewport()
+	}
+
+	renderViewport(viewport: MinimapViewport | null) {
+		this.viewport = viewport
+		this.drawViewport()
+	}
+
+	private drawViewport() {
+		const ctx = this.overlay.getContext('2d')
+		if (!ctx)
+			return
+		const { width, height, ratio } = this.size()
+		this.overlay.width = Math.round(width * ratio)
+		this.overlay.height = Math.round(height * ratio)
+		if (!this.scene || !this.viewport)
+			return
+		const { scale, offsetX, offsetY } = viewBoxTransform(this.scene.viewBox, width, height)
+		const v = this.viewport
+		ctx.setTransform(ratio * scale, 0, 0, ratio * scale, ratio * offsetX, ratio * offsetY)
+		ctx.fillStyle = VIEWPORT_FILL
+		ctx.fillRect(v.minX, v.minY, v.maxX - v.minX, v.maxY - v.minY)
+		ctx.strokeStyle = VIEWPORT_STROKE
+		ctx.lineWidth = VIEWPORT_STROKE_WIDTH
+		ctx.strokeRect(v.minX, v.minY, v.maxX - v.minX, v.maxY - v.minY)
+	}
+
+	pointer(e: MouseEvent): [number, number] {
+		const rect = this.element.getBoundingClientRect()
+		if (!this.scene)
+			return [e.clientX - rect.left, e.clientY - rect.top]
+		const { scale, offsetX, offsetY } = viewBoxTransform(this.scene.viewBox, rect.width, rect.height)
+		return [
+			(e.clientX - rect.left - offsetX) / scale,
+			(e.clientY - rect.top - offsetY) / scale,
+		]
+	}
+
+	edgeAt(e: MouseEvent): string | null {
+		const ctx = this.overlay.getContext('2d')
+		if (!ctx || !this.scene)
+			return null
+		if (!this.edgePaths)
+			this.edgePaths = new Map(this.scene.edges.map(edge => [edge.id, new Path2D(edge.d)]))
+		const rect = this.element.getBoundingClientRect()
+		const { scale } = viewBoxTransform(this.scene.viewBox, rect.width, rect.height)
+		const [x, y] = this.pointer(e)
+		ctx.save()
+		ctx.setTransform(1, 0, 0, 1, 0, 0)
+		ctx.lineWidth = EDGE_HIT_WIDTH / scale
+		let hit: string | null = null
+		this.edgePaths.forEach((path, id) => {
+			if (ctx.isPointInStroke(path, x, y))
+				hit = id
+		})
+		ctx.restore()
+		return hit
+	}
+
+	// 控制权已交给 OffscreenCanvas 的画布无法再在主线程使用，需要换一个新画布
+	private fallbackToMainThread() {
+		this.terminateWorker()
+		// 白板可能位于弹出窗口中，用它自己的 document 创建，不能用全局的 createEl
+		const content = this.element.doc.createElement('canvas')
+		content.style.cssText = this.content.style.cssText
+		this.content.replaceWith(content)
+		this.content = content
+		this.context = content.getContext('2d')
+		if (this.scene)
+			this.render(this.scene)
+	}
+
+	private terminateWorker() {
+		this.worker?.terminate()
+		this.worker = null
+		if (this.workerUrl) {
+			URL.revokeObjectURL(this.workerUrl)
+			this.workerUrl = null
+		}
+	}
+
+	destroy() {
+		this.terminateWorker()
+		this.element.remove()
+	}
+}
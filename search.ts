@@ -0,0 +1,76 @@
+import { prepareFuzzySearch, SearchResult } from 'obsidian';
+import { MinimapEmphasis } from 'renderer';
+import { nodeFileOf } from 'node-glyphs';
+
+// 参与搜索的节点文字：分组名、文本内容、文件路径、链接地址
+export function searchTextOf(node: any): string {
+	return [
+		node.label,
+		node.text ?? node.unknownData?.text,
+		nodeFileOf(node)?.path ?? node.unknownData?.file,
+		node.unknownData?.url,
+	].filter(Boolean).join('\n');
+}
+
+/**
+ * 小地图标题栏搜索框的状态：模糊匹配的结果按得分排序，
+ * current 为正在查看的结果，画布变化后按节点保留。
+ */
+export class MinimapSearch {
+	private query = '';
+	private fuzzy: ((text: string) => SearchResult | null) | null = null;
+	hits: any[] = [];
+	current = -1;
+	private matched: Set<string> = new Set();
+
+	get isActive() {
+		return this.fuzzy !== null;
+	}
+
+	setQuery(query: string) {
+		query = query.trim();
+		if (query === this.query)
+			return;
+		this.query = query;
+		this.fuzzy = query ? prepareFuzzySearch(query) : null;
+		this.current = -1;
+	}
+
+	// 重新匹配所有节点，保留当前结果所指的节点
+	refresh(nodes: Iterable<any>) {
+		const currentNode = this.hits[this.current];
+		this.hits = [];
+		this.matched.clear();
+		if (!this.fuzzy)
+			return;
+		const scored: { node: any; score: number }[] = [];
+		for (const node of nodes) {
+			const result = this.fuzzy(searchTextOf(node));
+			if (result)
+				scored.push({ node, score: result.score });
+		}
+		scored.sort((a, b) => b.score - a.score);
+		this.hits = scored.map(s => s.node);
+		this.hits.forEach(node => this.matched.add(node.id));
+		this.current = currentNode ? this.hits.indexOf(currentNode) : -1;
+	}
+
+	// 前进或后退 delta 个结果（循环），返回新的当前结果
+	step(delta: number): any | null {
+		if (this.hits.length === 0)
+			return null;
+		const count = this.hits.length;
+		this.current = this.current < 0
+			? (delta > 0 ? 0 : count - 1)
+			: ((this.current + delta) % count + count) % count;
+		return this.hits[this.current];
+	}
+
+	emphasisOf(id: string): MinimapEmphasis {
+		if (!this.isActive)
+			return 'none';
+		if (this.hits[this.current]?.id === id)
+			return 'current';
+		return this.matched.has(id) ? 'match' : 'dim';
+	}
+}
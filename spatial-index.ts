@@ -0,0 +1,173 @@
+// 小地图命中测试与视口裁剪使用的空间索引（四叉树）
+
+export interface Bounds {
+	minX: number;
+	minY: number;
+	maxX: number;
+	maxY: number;
+}
+
+interface Entry<T> {
+	id: string;
+	bounds: Bounds;
+	value: T;
+	cell: QuadCell<T>;
+}
+
+class QuadCell<T> {
+	bounds: Bounds;
+	depth: number;
+	entries: Entry<T>[] = [];
+	children: QuadCell<T>[] | null = null;
+
+	constructor(bounds: Bounds, depth: number) {
+		this.bounds = bounds;
+		this.depth = depth;
+	}
+}
+
+function containsBounds(outer: Bounds, inner: Bounds) {
+	return inner.minX >= outer.minX && inner.maxX <= outer.maxX && inner.minY >= outer.minY && inner.maxY <= outer.maxY;
+}
+
+function intersectsBounds(a: Bounds, b: Bounds) {
+	return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+}
+
+function sameBounds(a: Bounds, b: Bounds) {
+	return a.minX === b.minX && a.minY === b.minY && a.maxX === b.maxX && a.maxY === b.maxY;
+}
+
+/**
+ * 按 id 存储矩形的四叉树。每个条目放在能完整容纳它的最深单元中，
+ * 跨越分界线的条目留在父单元，因此可以直接存储任意大小的矩形。
+ */
+export class QuadTree<T> {
+	private root: QuadCell<T> | null = null;
+	private entries: Map<string, Entry<T>> = new Map();
+	private maxEntries: number;
+	private maxDepth: number;
+
+	constructor(maxEntries = 8, maxDepth = 12) {
+		this.maxEntries = maxEntries;
+		this.maxDepth = maxDepth;
+	}
+
+	get size() {
+		return this.entries.size;
+	}
+
+	has(id: string) {
+		return this.entries.has(id);
+	}
+
+	ids() {
+		return Array.from(this.entries.keys());
+	}
+
+	clear() {
+		this.root = null;
+		this.entries.clear();
+	}
+
+	insert(id: string, bounds: Bounds, value: T) {
+		const existing = this.entries.get(id);
+		if (existing) {
+			existing.value = value;
+			if (sameBounds(existing.bounds, bounds))
+				return;
+			this.detach(existing);
+		}
+		const entry = { id, bounds: { ...bounds }, value } as Entry<T>;
+		this.entries.set(id, entry);
+		if (!this.root || !containsBounds(this.root.bounds, bounds)) {
+			this.rebuild(bounds);
+			return;
+		}
+		this.place(this.root, entry);
+	}
+
+	remove(id: string) {
+		const entry = this.entries.get(id);
+		if (!entry)
+			return;
+		this.detach(entry);
+		this.entries.delete(id);
+	}
+
+	search(bounds: Bounds): T[] {
+		const result: T[] = [];
+		if (!this.root)
+			return result;
+		const stack = [this.root];
+		while (stack.length > 0) {
+			const cell = stack.pop() as QuadCell<T>;
+			if (!intersectsBounds(cell.bounds, bounds))
+				continue;
+			for (const entry of cell.entries) {
+				if (intersectsBounds(entry.bounds, bounds))
+					result.push(entry.value);
+			}
+			if (cell.children)
+				stack.push(...cell.children);
+		}
+		return result;
+	}
+
+	searchPoint(x: number, y: number): T[] {
+		return this.search({ minX: x, minY: y, maxX: x, maxY: y });
+	}
+
+	private detach(entry: Entry<T>) {
+		const list = entry.cell.entries;
+		const index = list.indexOf(entry);
+		if (index >= 0)
+			list.splice(index, 1);
+	}
+
+	// 新条目超出根单元范围时，扩大范围后重建整棵树（画布扩张时才会发生）
+	private rebuild(extra: Bounds) {
+		let minX = extra.minX, minY = extra.minY, maxX = extra.maxX, maxY = extra.maxY;
+		this.entries.forEach(entry => {
+			minX = Math.min(minX, entry.bounds.minX);
+			minY = Math.min(minY, entry.bounds.minY);
+			maxX = Math.max(maxX, entry.bounds.maxX);
+			maxY = Math.max(maxY, entry.bounds.maxY);
+		});
+		// 预留一倍空间，避免画布持续扩张时频繁重建
+		const padX = Math.max(maxX - minX, 1) / 2;
+		const padY = Math.max(maxY - minY, 1) / 2;
+		this.root = new QuadCell<T>({ minX: minX - padX, minY: minY - padY, maxX: maxX + padX, maxY: maxY + padY }, 0);
+		this.entries.forEach(entry => this.place(this.root as QuadCell<T>, entry));
+	}
+
+	private place(cell: QuadCell<T>, entry: Entry<T>) {
+		while (cell.children) {
+			const child = cell.children.find(c => containsBounds(c.bounds, entry.bounds));
+			if (!child)
+				break;
+			cell = child;
+		}
+		entry.cell = cell;
+		cell.entries.push(entry);
+		if (!cell.children && cell.entries.length > this.maxEntries && cell.depth < this.maxDepth)
+			this.split(cell);
+	}
+
+	private split(cell: QuadCell<T>) {
+		const { minX, minY, maxX, maxY } = cell.bounds;
+		const midX = (minX + maxX) / 2;
+		const midY = (minY + maxY) / 2;
+		const depth = cell.depth + 1;
+		cell.children = [
+			new QuadCell<T>({ minX, minY, maxX: midX, maxY: midY }, depth),
+			new QuadCell<T>({ minX: midX, minY, maxX, maxY: midY }, depth),
+			new QuadCell<T>({ minX, minY: midY, maxX: midX, maxY }, depth),
+			new QuadCell<T>({ minX: midX, minY: midY, maxX, maxY }, depth),
+		];
+		const entries = cell.entries;
+		cell.entries = [];
+		for (const entry of entries)
+			this.place(cell, entry);
+	}
+}
@@ -0,0 +1,96 @@
+import { App, TFile } from 'obsidian';
+import { MinimapThumbnail } from 'renderer';
+
+// 缩略图最长边的像素数，小地图上的图片节点通常只有几十像素
+const THUMBNAIL_SIZE = 128;
+
+const MIME_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	bmp: 'image/bmp',
+	svg: 'image/svg+xml',
+	webp: 'image/webp',
+	avif: 'image/avif',
+};
+
+interface ThumbnailEntry {
+	// 文件修改时间，文件变化后重新生成
+	mtime: number;
+	// 生成中或生成失败时为 null
+	thumbnail: MinimapThumbnail | null;
+}
+
+/**
+ * 库中图片文件的缩略图缓存，所有小地图共享。
+ * 缩略图异步生成，完成后调用 onLoad 通知小地图重绘。
+ */
+export class ThumbnailCache {
+	private app: App;
+	private onLoad: () => void;
+	private entries: Map<string, ThumbnailEntry> = new Map();
+
+	constructor(app: App, onLoad: () => void) {
+		this.app = app;
+		this.onLoad = onLoad;
+	}
+
+	get(file: TFile): MinimapThumbnail | null {
+		const entry = this.entries.get(file.path);
+		if (entry && entry.mtime === file.stat.mtime)
+			return entry.thumbnail;
+		const pending: ThumbnailEntry = { mtime: file.stat.mtime, thumbnail: null };
+		this.entries.set(file.path, pending);
+		this.load(file).then(thumbnail => {
+			// 生成期间文件可能再次变化或被移除，只保留最新的结果
+			if (this.entries.get(file.path) !== pending || !thumbnail)
+				return;
+			pending.thumbnail = thumbnail;
+			this.onLoad();
+		}).catch(e => console.warn(`Canvas minimap: failed to load thumbnail for ${file.path}`, e));
+		return null;
+	}
+
+	forget(path: string) {
+		this.entries.get(path)?.thumbnail?.bitmap?.close();
+		this.entries.delete(path);
+	}
+
+	clear() {
+		this.entries.forEach(entry => entry.thumbnail?.bitmap?.close());
+		this.entries.clear();
+	}
+
+	// 读取文件内容生成同源的 blob URL，绘制到画布时不会污染画布，可以导出 data URL
+	private async load(file: TFile): Promise<MinimapThumbnail | null> {
+		const data = await this.app.vault.readBinary(file);
+		const type = MIME_TYPES[file.extension.toLowerCase()] ?? '';
+		const url = URL.createObjectURL(new Blob([data], { type }));
+		try {
+			const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+				const img = new Image();
+				img.onload = () => resolve(img);
+				img.onerror = reject;
+				img.src = url;
+			});
+			// SVG 没有固有尺寸时按正方形处理
+			const naturalWidth = image.naturalWidth || THUMBNAIL_SIZE;
+			const naturalHeight = image.naturalHeight || THUMBNAIL_SIZE;
+			const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(naturalWidth, naturalHeight));
+			const canvas = document.createElement('canvas');
+			canvas.width = Math.max(1, Math.round(naturalWidth * scale));
+			canvas.height = Math.max(1, Math.round(naturalHeight * scale));
+			const ctx = canvas.getContext('2d');
+			if (!ctx)
+				return null;
+			ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+			return {
+				url: canvas.toDataURL('image/png'),
+				bitmap: typeof createImageBitmap === 'function' ? await createImageBitmap(canvas) : null,
+			};
+		} finally {
+			URL.revokeObjectURL(url);
+		}
+	}
+}
@@ -0,0 +1,142 @@
+import { App, TFile } from 'obsidian';
+import { t } from 'i18n';
+import { nodeFileOf, nodeKindName, nodeKindOf } from 'node-glyphs';
+import { labelTextOf } from 'labels';
+import type { MinimapViewpoint } from 'main';
+
+// 摘要的最大字符数，以及文件节点预览的行数
+const EXCERPT_LENGTH = 200;
+const PREVIEW_LINES = 5;
+// 提示框与鼠标之间的距离（像素）
+const CURSOR_OFFSET = 12;
+
+export type MinimapHoverTarget =
+	| { type: 'node'; node: any }
+	| { type: 'edge'; edge: any }
+	| { type: 'viewpoint'; viewpoint: MinimapViewpoint; index: number };
+
+export function excerpt(text: string, length = EXCERPT_LENGTH) {
+	const trimmed = text.trim();
+	return trimmed.length > length ? trimmed.slice(0, length) + '…' : trimmed;
+}
+
+// 笔记开头的几行，跳过 frontmatter 和空行
+function previewLines(content: string) {
+	const lines = content.split('\n');
+	let start = 0;
+	if (lines[0]?.trim() === '---') {
+		const end = lines.indexOf('---', 1);
+		start = end > 0 ? end + 1 : 0;
+	}
+	return excerpt(lines.slice(start).filter(line => line.trim().length > 0).slice(0, PREVIEW_LINES).join('\n'));
+}
+
+function nodeName(node: any) {
+	return labelTextOf(node) ?? nodeKindName(nodeKindOf(node));
+}
+
+/**
+ * 小地图悬停提示：显示节点类型、分组名或文件路径、文字摘要，
+ * Markdown 文件节点额外显示笔记开头几行（通过 vault 缓存读取）；连线显示两端节点。
+ * 提示框挂在白板容器上，可以超出小地图窗口的范围。
+ */
+export class MinimapTooltip {
+	private app: App;
+	private host: HTMLElement;
+	private el: HTMLElement | null = null;
+	private target: any = null;
+
+	constructor(app: App, host: HTMLElement) {
+		this.app = app;
+		this.host = host;
+	}
+
+	show(target: MinimapHoverTarget, clientX: number, clientY: number) {
+		const item = target.type === 'node' ? target.node : target.type === 'edge' ? target.edge : target.viewpoint;
+		if (!this.el)
+			this.el = this.host.createDiv({ cls: 'minimap-tooltip' });
+		if (item !== this.target) {
+			this.target = item;
+			this.el.empty();
+			if (target.type === 'node')
+				this.describeNode(this.el, target.node);
+			else if (target.type === 'edge')
+				this.describeEdge(this.el, target.edge);
+			else
+				this.describeViewpoint(this.el, target.viewpoint, target.index);
+		}
+		this.position(clientX, clientY);
+	}
+
+	hide() {
+		this.el?.remove();
+		this.el = null;
+		this.target = null;
+	}
+
+	destroy() {
+		this.hide();
+	}
+
+	private describeNode(el: HTMLElement, node: any) {
+		const kind = nodeKindOf(node);
+		el.createDiv({ cls: 'minimap-tooltip-type', text: nodeKindName(kind) });
+		if (kind === 'group') {
+			if (node.label)
+				el.createDiv({ cls: 'minimap-tooltip-title', text: node.label });
+		} else if (kind === 'link') {
+			const url = node.unknownData?.url ?? node.url;
+			if (url)
+				el.createDiv({ cls: 'minimap-tooltip-title', text: url });
+		} else if (kind === 'file' || kind === 'image') {
+			const file = nodeFileOf(node);
+			el.createDiv({ cls: 'minimap-tooltip-title', text: file?.path ?? node.unknownData?.file ?? t('tooltipMissingFile') });
+			if (file && file.extension === 'md')
+				this.preview(el, node, file);
+		} else {
+			const text: string = node.text ?? node.unknownData?.text ?? '';
+			if (text.trim())
+				el.createDiv({ cls: 'minimap-tooltip-excerpt', text: excerpt(text) });
+		}
+	}
+
+	private describeEdge(el: HTMLElement, edge: any) {
+		el.createDiv({ cls: 'minimap-tooltip-type', text: t('tooltipEdge') });
+		el.createDiv({ cls: 'minimap-tooltip-title', text: `${nodeName(edge.from.node)} → ${nodeName(edge.to.node)}` });
+		if (edge.label)
+			el.createDiv({ cls: 'minimap-tooltip-excerpt', text: edge.label });
+	}
+
+	private describeViewpoint(el: HTMLElement, viewpoint: MinimapViewpoint, index: number) {
+		el.createDiv({ cls: 'minimap-tooltip-type', text: `${t('viewpoint')} ${index + 1}` });
+		el.createDiv({ cls: 'minimap-tooltip-title', text: viewpoint.name });
+	}
+
+	// 异步读取笔记内容；读取完成时鼠标可能已经移到其他节点上。
+	// 文件在此期间被删除或重命名时读取失败，提示中只是没有摘要
+	private preview(el: HTMLElement, node: any, file: TFile) {
+		this.app.vault.cachedRead(file).then(content => {
+			const lines = previewLines(content);
+			if (this.el === el && this.target === node && lines)
+				el.createDiv({ cls: 'minimap-tooltip-excerpt', text: lines });
+		}).catch(() => {});
+	}
+
+	// 放在鼠标右下方，超出白板容器时翻到另一侧
+	private position(clientX: number, clientY: number) {
+		const el = this.el;
+		if (!el)
+			return;
+		const hostRect = this.host.getBoundingClientRect();
+		const width = el.offsetWidth;
+		const height = el.offsetHeight;
+		let left = clientX - hostRect.left + CURSOR_OFFSET;
+		let top = clientY - hostRect.top + CURSOR_OFFSET;
+		if (left + width > hostRect.width)
+			left = Math.max(0, clientX - hostRect.left - CURSOR_OFFSET - width);
+		if (top + height > hostRect.height)
+			top = Math.max(0, clientY - hostRect.top - CURSOR_OFFSET - height);
+		el.style.left = left + 'px';
+		el.style.top = top + 'px';
+	}
+}
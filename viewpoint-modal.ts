@@ -0,0 +1,52 @@
+import { App, Modal, Setting } from 'obsidian';
+import { t } from 'i18n';
+
+// 输入视点名称的弹窗，确认后调用 onSubmit
+export class ViewpointNameModal extends Modal {
+	private name: string;
+	private onSubmit: (name: string) => void;
+
+	constructor(app: App, defaultName: string, onSubmit: (name: string) => void) {
+		super(app);
+		this.name = defaultName;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(t('saveViewpointDesc'));
+
+		new Setting(contentEl)
+			.setName(t('viewpointName'))
+			.addText(text => {
+				text.setValue(this.name)
+					.onChange(value => this.name = value);
+				text.inputEl.addEventListener('keydown', (e: KeyboardEvent) => {
+					if (e.key === 'Enter') {
+						e.preventDefault();
+						this.submit();
+					}
+				});
+				// 打开后直接选中默认名称，便于覆盖输入
+				text.inputEl.win.setTimeout(() => text.inputEl.select(), 0);
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText(t('save'))
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private submit() {
+		const name = this.name.trim();
+		if (!name)
+			return;
+		this.close();
+		this.onSubmit(name);
+	}
+}